@@ -1,10 +1,10 @@
-
-import React, { useEffect } from 'react';
+import React from 'react';
+import { HolidayTree } from './HolidayTree';
 
 const App: React.FC = () => {
-    // This file acts as the bridge for the React runtime, 
-    // although the core logic resides in index.tsx for Three.js integration.
-    return null;
+    // Minimal React host for the tree; the standalone page boots from index.tsx
+    // instead, with the HUD markup from index.html.
+    return <HolidayTree style={{ position: 'fixed', inset: 0 }} />;
 };
 
 export default App;
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { HolidayApp, HolidayAppEvents, HolidayAppOptions, FocusedPhoto, PhotoSource } from './holidayApp';
+import type { VisionStatus } from './services/visionRuntime';
+
+export interface HolidayTreeProps {
+    // 阵型 id，如 'tree'、'heart'、'scatter'；改变时切换过去
+    mode?: string;
+    // 给定时只显示这些照片，不读写本机保存的照片库
+    photos?: PhotoSource[];
+    theme?: string;
+    // 按 CONFIG 的结构覆盖部分配置
+    config?: Record<string, unknown>;
+    // 默认打开摄像头做手势识别
+    camera?: boolean;
+    // 读取 ?theme=、?seed= 等参数的查询串；默认 ''，不受宿主页面地址影响
+    search?: string;
+    onModeChange?: (mode: string) => void;
+    onPhotoFocus?: (photo: FocusedPhoto | null) => void;
+    onVisionStatus?: (status: VisionStatus, detail: string) => void;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+const optionsOf = ({ mode, photos, theme, config, camera }: HolidayTreeProps): HolidayAppOptions => ({ mode, photos, theme, config, camera });
+
+/**
+ * Mounts the holiday tree into its own <div>, sized by the parent. Props are
+ * pushed into the running app on every render and unchanged values are
+ * ignored; unmounting disposes the app, camera stream included. CONFIG is
+ * shared module state, so render one tree per page.
+ */
+export const HolidayTree: React.FC<HolidayTreeProps> = props => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const appRef = useRef<HolidayApp | null>(null);
+    // 回调总是读最新的 props，宿主每次渲染传入新函数也不用重新挂载
+    const propsRef = useRef(props);
+    propsRef.current = props;
+
+    useEffect(() => {
+        const events: HolidayAppEvents = {
+            modeChange: mode => propsRef.current.onModeChange?.(mode),
+            photoFocus: photo => propsRef.current.onPhotoFocus?.(photo),
+            visionStatus: (status, detail) => propsRef.current.onVisionStatus?.(status, detail)
+        };
+        const app = new HolidayApp(containerRef.current!, { ...optionsOf(propsRef.current), search: propsRef.current.search ?? '', events });
+        appRef.current = app;
+        return () => {
+            app.dispose();
+            appRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        appRef.current?.setOptions(optionsOf(props));
+    });
+
+    return <div ref={containerRef} className={props.className} style={{ position: 'relative', width: '100%', height: '100%', overflow: 'hidden', ...props.style }} />;
+};
+
+export default HolidayTree;
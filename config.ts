@@ -0,0 +1,142 @@
+import type { SlideTransition } from './scene/slideshow';
+
+// --- 核心配置 ---
+export const CONFIG = {
+    tree: {
+        height: 18, // 缩小树的高度
+        baseRadius: 7, // 缩小树的底半径
+        tiers: 7, 
+        particles: 6000, 
+        trunkHeight: 3,
+        trunkRadius: 0.7
+    },
+    snow: {
+        // 天气强度，见 WEATHER_PRESETS：0 无雪、1 小雪、2 中雪、3 暴风雪、4 大暴雪
+        intensity: 2,
+        // GPU 雪花的总数，强度按比例取用其中一部分
+        capacity: 8000,
+        bounds: { x: 80, y: 60, z: 80 },
+        // 风力倍数，以及张开手掌挥动时阵风的倍数
+        wind: 1,
+        gust: 1,
+        // TREE 模式下雪会落在树上慢慢积起来
+        settle: true
+    },
+    field: {
+        // 手的力场：作用半径（世界单位），推开、握拳聚拢与摇晃的倍数
+        radius: 4.5,
+        push: 1,
+        gather: 1,
+        shake: 1
+    },
+    interaction: {
+        focusScale: 3.2, 
+        focusZ: 36, 
+        lerpFactor: 0.1,
+        hoverScaleMultiplier: 1.3 
+    },
+    camera: {
+        // 垂直视角（度），以及聚焦、播放路径时相机飞过去用的秒数
+        fov: 45,
+        flight: 1.2
+    },
+    colors: {
+        gold: 0xd4af37,
+        greens: [0x013220, 0x014421, 0x1a3311, 0x0b2911], 
+        red: 0x8a0303,
+        love: 0xff0033,
+        snow: 0xffffff,
+        hoverGlow: 0xfff0a0,
+        trunk: 0x2b1e16,
+        star: 0xffffcc,
+        // 彩灯在这两种颜色之间缓慢变化
+        lightLow: 0xfff0a0,
+        lightHigh: 0xffcc33
+    },
+    // 当前主题；颜色、泛光、雾与 HUD 配色都由主题写入，设置面板可以再单独调整
+    theme: 'classic',
+    atmosphere: {
+        // 页面背景与指数雾，density 为 0 时没有雾
+        background: 0x050505,
+        fog: 0x050505,
+        fogDensity: 0
+    },
+    hud: {
+        accent: 0xd4af37,
+        alert: 0xff3366
+    },
+    layout: {
+        // 布局随机数的种子，相同种子总是得到同一棵树
+        seed: 1225
+    },
+    slideshow: {
+        // 每张照片停留的秒数
+        interval: 6,
+        // 没有任何操作多少秒后自动开始，0 表示不自动开始
+        idleStart: 60,
+        transition: 'glide' as SlideTransition
+    },
+    textures: {
+        // 树上照片纹理的最长边，聚焦时按需加载的大图最长边（像素）
+        treeSize: 512,
+        focusSize: 2048,
+        // 所有照片纹理加起来的显存上限
+        budgetMB: 192
+    },
+    text: {
+        message: 'Merry Christmas',
+        // 文字笔画在 z 方向的厚度
+        depth: 2.4
+    },
+    render: {
+        // 色调映射曝光与泛光（UnrealBloomPass 的 strength / radius / threshold）
+        exposure: 2.2,
+        bloomStrength: 0.7,
+        bloomRadius: 0.3,
+        bloomThreshold: 0.8
+    },
+    quality: {
+        // 按帧率自动升降画质；关闭时固定在 tier 档（0 最高，4 最低）
+        auto: true,
+        tier: 0,
+        // 屏幕左上角显示帧率与当前档位
+        stats: false
+    },
+    audio: {
+        // 节拍检测的灵敏度，越大越容易触发
+        sensitivity: 1,
+        // 持续的响亮段落让粒子散开一下
+        bursts: true
+    },
+    countdown: {
+        // 倒计时的目标：'christmas' 是平安夜的午夜（12 月 25 日 0 点），'newyear' 是元旦 0 点，都按本机时区，过了就算明年的；
+        // 也可以写成本地时间的具体时刻，如 '2026-12-24T20:00'
+        target: 'christmas',
+        // 到点时屏幕中央的祝福
+        greeting: 'Merry Christmas',
+        // 表演结束时粒子落回的阵型
+        finale: 'tree',
+        // 屏幕右上角显示倒计时
+        timer: true,
+        // 烟花数量的倍数，0 表示不放烟花
+        fireworks: 1
+    },
+    remote: {
+        // npm run relay 启动的中继端口，手机经它连到大屏
+        relayPort: 8787
+    },
+    ambient: {
+        swayAmount: 0.08,
+        swaySpeed: 0.6,
+        colorShiftSpeed: 0.3
+    }
+};
+
+// 把校验过的局部配置逐层写回 CONFIG（数组整体替换）
+export function assignConfig(target: Record<string, any>, patch: Record<string, any>) {
+    Object.keys(patch).forEach(key => {
+        const value = patch[key];
+        if (value && typeof value === 'object' && !Array.isArray(value)) assignConfig(target[key], value);
+        else target[key] = value;
+    });
+}
@@ -0,0 +1,2249 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
+import { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js';
+import type { HandLandmarker } from '@mediapipe/tasks-vision';
+import { ParticleBatch } from './scene/particleBatch';
+import { PhotoStore, MemoryPhotoStore, PhotoLibrary, StoredPhoto, StoredOrnament, createPhotoId } from './services/photoStore';
+import { LibraryPanel } from './ui/libraryPanel';
+import { exportArchive, importArchive, validateConfig, ArchiveError } from './services/treeArchive';
+import { showToast } from './ui/toast';
+import { InputHub, InputIntent, InputSourceKind } from './input/inputHub';
+import { HandSource } from './input/handSource';
+import { GestureRecognizer } from './input/gestureRecognizer';
+import { LandmarkRecorder, LandmarkReplay, LandmarkRecording, frameToResult, parseRecording } from './input/landmarkRecording';
+import { LandmarkOverlay } from './ui/landmarkOverlay';
+import { downloadBlob } from './ui/download';
+import { loadHandLandmarker, openCamera, closeCamera, VisionError, VisionStatus } from './services/visionRuntime';
+import { VisionStatusIndicator } from './ui/visionStatus';
+import { PointerSource } from './input/pointerSource';
+import { KeyboardSource } from './input/keyboardSource';
+import { modeForIntent } from './input/intentModes';
+import { CONFIG, assignConfig } from './config';
+import { Particle } from './scene/particle';
+import { Mode, Formation, FormationContext, getFormation, hasFormation, listFormations, textFormation } from './scene/formations';
+import { TEXT_FONT } from './scene/textRaster';
+import { SimulationClock, SLOW_MOTION_SCALE, damp, perFrame } from './scene/clock';
+import { createRandom, hashSeed } from './scene/random';
+import { Slideshow, applyTransition } from './scene/slideshow';
+import { SlideshowIndicator } from './ui/slideshowIndicator';
+import { readExif } from './services/exif';
+import { PhotoTextures } from './scene/photoTextures';
+import { SceneCapture } from './scene/capture';
+import { Choreography } from './scene/choreography';
+import { CapturePanel } from './ui/capturePanel';
+import { CaptionOverlay } from './ui/captionOverlay';
+import { FormationBar } from './ui/formationBar';
+import { AudioReactive, AudioFrame } from './services/audioReactive';
+import { AudioPanel } from './ui/audioPanel';
+import { SETTINGS, SettingsStore, SettingSpec } from './services/settings';
+import { SettingsPanel } from './ui/settingsPanel';
+import { ThemeFade, ThemePalette, PaletteSlot, paletteColor, paletteFromConfig } from './scene/theme';
+import { ThemeStore } from './services/themeStore';
+import { ThemePicker } from './ui/themePicker';
+import { QualityGovernor } from './scene/quality';
+import { StatsOverlay } from './ui/statsOverlay';
+import { Weather } from './scene/weather';
+import { SnowCover } from './scene/snowCover';
+import { RemoteSource } from './input/remoteSource';
+import { RemoteState, createPairingCode, normalizePairingCode } from './input/remoteProtocol';
+import { fetchRelayAddresses } from './services/remoteTransport';
+import { RemotePanel } from './ui/remotePanel';
+import { CameraRig, CameraPose, HOME_POSE, clonePose } from './scene/cameraRig';
+import { CameraKey, CameraPath, keyFromPose, pathDuration, samplePath } from './scene/cameraPath';
+import { CameraPathStore } from './services/cameraPathStore';
+import { CameraPanel } from './ui/cameraPanel';
+import { HandField } from './scene/handField';
+import { Fireworks } from './scene/fireworks';
+import { COUNTDOWN_TARGETS, CountdownShow, CountdownTimer, formatRemaining, resolveTarget } from './scene/countdown';
+import { CountdownOverlay } from './ui/countdownOverlay';
+import { CountdownPanel } from './ui/countdownPanel';
+import { TreePin, hitTree, pinFromPoint } from './scene/placement';
+import { ORNAMENT_KINDS, OrnamentKind, createOrnamentMesh } from './scene/ornaments';
+import { EditorPanel } from './ui/editorPanel';
+
+// 照片可以是图片地址，也可以是 Blob/File
+export type PhotoSource = string | Blob;
+
+export interface FocusedPhoto {
+    id: string;
+    // 在照片库（或传入的 photos）中的位置
+    index: number;
+    name: string;
+    caption?: string;
+}
+
+export interface HolidayAppEvents {
+    modeChange?: (mode: string) => void;
+    // 退出聚焦时为 null
+    photoFocus?: (photo: FocusedPhoto | null) => void;
+    visionStatus?: (status: VisionStatus, detail: string) => void;
+}
+
+export interface HolidayAppOptions {
+    // 开场阵型
+    mode?: string;
+    // 给定时树上只挂这些照片，照片库只存在内存里，不读写本机的 IndexedDB
+    photos?: PhotoSource[];
+    theme?: string;
+    // 按 CONFIG 的结构覆盖部分配置，在保存的设置和 URL 参数之后生效
+    config?: Record<string, unknown>;
+    // 为 false 时不打开摄像头
+    camera?: boolean;
+    // 读取 ?theme=、?seed= 等参数的查询串，默认是页面地址的；嵌入时可以传 '' 忽略宿主页面的参数
+    search?: string;
+    events?: HolidayAppEvents;
+}
+
+// 地址取文件名，File 用自己的名字，其余按序号命名
+function photoName(source: PhotoSource, index: number) {
+    if (typeof source === 'string') return source.split(/[?#]/)[0].split('/').pop() || `photo-${index + 1}`;
+    return (source as File).name || `photo-${index + 1}`;
+}
+
+// 烟花火花池的容量，以及表演时星星从最亮降回平时所用的秒数
+const FIREWORK_CAPACITY = 6000;
+const FLARE_SECONDS = 12;
+// 最后这么多秒在屏幕中央大字倒数，排练时把时钟拨到零点前这么多秒
+const FINAL_SECONDS = 10;
+// 表演落回阵型时，最底下的粒子比最顶上的晚这么多秒出发
+const CASCADE_SECONDS = 2;
+
+// 图片挂饰的纹理也由 photoTextures 管，用带前缀的 id 和照片区分开
+const ORNAMENT_TEXTURE = 'ornament:';
+// 编辑时指针移动超过这么多像素才算拖动，只是点一下不会把东西固定下来
+const DRAG_THRESHOLD = 6;
+
+const _ray = new THREE.Ray();
+const _inverse = new THREE.Matrix4();
+const _hit = new THREE.Vector3();
+
+const samePhotos = (a?: PhotoSource[], b?: PhotoSource[]) => !!a && !!b && a.length === b.length && a.every((s, i) => s === b[i]);
+
+export class HolidayApp {
+    container: HTMLElement;
+    options: HolidayAppOptions;
+    events: HolidayAppEvents;
+    search: string;
+    scene!: THREE.Scene;
+    camera!: THREE.PerspectiveCamera;
+    renderer!: THREE.WebGLRenderer;
+    composer!: EffectComposer;
+    bloom!: UnrealBloomPass;
+    mainGroup!: THREE.Group;
+    landmarker!: HandLandmarker;
+    video!: HTMLVideoElement;
+    stream: MediaStream | null = null;
+    visionDelegate = '';
+    visionStatus = new VisionStatusIndicator(document.getElementById('vision-status'), () => this.setCameraEnabled(true));
+    cameraEnabled = true;
+    particles: Particle[] = [];
+    batches: ParticleBatch[] = [];
+    photoTarget: Particle | null = null;
+    hoveredParticle: Particle | null = null;
+    mode: string = Mode.TREE;
+    lastMode: string = Mode.TREE;
+    spreadFrom: string = Mode.TREE;
+    formationBar = new FormationBar(document.getElementById('formation-buttons'), listFormations(), id => this.input.emit({ type: 'formation', source: 'mouse', id }));
+    clock = new SimulationClock();
+    slideshow = new Slideshow();
+    slideshowIndicator = new SlideshowIndicator(document.getElementById('slideshow-indicator'), CONFIG.slideshow.transition, t => CONFIG.slideshow.transition = t);
+    photoTextures = new PhotoTextures(CONFIG.textures, (id, tex) => this.applyPhotoTexture(id, tex));
+    capture!: SceneCapture;
+    capturePanel: CapturePanel | null = null;
+    choreography: Choreography | null = null;
+    captionOverlay = new CaptionOverlay(document.getElementById('focus-caption'));
+    audio = new AudioReactive(CONFIG.audio);
+    audioPanel: AudioPanel | null = null;
+    // 音乐炸开的 SCATTER 在这个真实时间之后收回，0 表示没有在炸开
+    burstUntil = 0;
+    settings = new SettingsStore();
+    settingsPanel: SettingsPanel | null = null;
+    themes = new ThemeStore();
+    themeFade = new ThemeFade();
+    themePicker: ThemePicker | null = null;
+    quality = new QualityGovernor(CONFIG.quality.tier);
+    statsOverlay = new StatsOverlay(document.getElementById('stats-overlay'));
+    weather!: Weather;
+    snowCover = new SnowCover();
+    field = new HandField();
+    fireworks!: Fireworks;
+    countdown = new CountdownTimer();
+    countdownOverlay = new CountdownOverlay(document.getElementById('countdown'), document.getElementById('countdown-banner'));
+    countdownPanel: CountdownPanel | null = null;
+    show = new CountdownShow({
+        flare: () => this.starFlare = 1,
+        formation: id => this.setFormation(id),
+        cascade: () => this.cascadeTo(hasFormation(CONFIG.countdown.finale) ? CONFIG.countdown.finale : Mode.TREE),
+        launch: () => this.fireworks.launch(),
+        greeting: on => this.showGreeting = on
+    });
+    // 表演时星星额外的亮度，从 1 慢慢降回 0
+    starFlare = 0;
+    showGreeting = false;
+    // 最近一次任何输入的真实时间，用于空闲后自动开始幻灯片
+    lastActivity = 0;
+    input = new InputHub();
+    gestures = new GestureRecognizer();
+    handSource = new HandSource(this.input, this.gestures);
+    remote = new RemoteSource(this.input, {
+        photo: file => this.importFiles([file]),
+        rejected: name => showToast(`Could not read ${name} from the remote`, 'error'),
+        state: () => this.remoteState(),
+        status: () => this.updateRemotePanel()
+    });
+    remotePanel: RemotePanel | null = null;
+    // 手机要打开的遥控页链接，中继报告局域网地址后才完整
+    remoteLink = '';
+    pointerSource!: PointerSource;
+    recorder = new LandmarkRecorder();
+    replay: LandmarkReplay | null = null;
+    overlay!: LandmarkOverlay;
+    keyboardSource!: KeyboardSource;
+    pointer = { x: 0, y: 0, active: false, source: 'mouse' as InputSourceKind };
+    steerTime = -Infinity;
+    cameraRig!: CameraRig;
+    cameraPaths = new CameraPathStore();
+    cameraPanel: CameraPanel | null = null;
+    // 正在录的新路径，以及正在播放的路径
+    cameraDraft: CameraKey[] = [];
+    cameraPlayback: { path: CameraPath; time: number } | null = null;
+    // 相机当前跟的是哪个机位（轨道、某张聚焦的照片、某条路径），变化时飞过去
+    cameraShot = 'orbit';
+    shotPose = clonePose(HOME_POSE);
+    raycaster = new THREE.Raycaster();
+    mouse = new THREE.Vector2();
+    trunk!: THREE.Mesh;
+    star!: THREE.Mesh;
+    ambientLight!: THREE.AmbientLight;
+    sun!: THREE.DirectionalLight;
+    photoStore: PhotoLibrary = new PhotoStore();
+    // 丢弃过期的 setPhotos 结果：只有最后一次调用的照片会挂到树上
+    photoRequest = 0;
+    // 上一次通知宿主的状态
+    reported = { mode: '', photoId: null as string | null };
+    frame = 0;
+    handTimer = 0;
+    // dispose 时依次执行：移除监听、断开观察者、拆掉 HUD 面板
+    cleanup: (() => void)[] = [];
+    // 挂载前的 CONFIG；dispose 时还原，再次挂载时不带上这一次的主题、设置和宿主配置
+    initialConfig = structuredClone(CONFIG);
+    disposed = false;
+    photoRecords: StoredPhoto[] = [];
+    ornamentRecords: StoredOrnament[] = [];
+    // 照片和挂饰粒子的编号只增不减，删掉一个以后新加的也不会和已有的重号
+    nextItemId = 0;
+    // 摆放编辑：选中的照片或挂饰，以及正在拖的那一个（从哪个像素开始、动过没有）
+    editing = false;
+    editorPanel: EditorPanel | null = null;
+    selected: Particle | null = null;
+    dragging: { particle: Particle; x: number; y: number; moved: boolean } | null = null;
+    libraryReady!: Promise<void>;
+    library!: LibraryPanel;
+
+    constructor(container: HTMLElement = document.body, options: HolidayAppOptions = {}) {
+        this.container = container;
+        this.options = options;
+        this.events = options.events ?? {};
+        this.search = options.search ?? location.search;
+        this.cameraEnabled = options.camera ?? true;
+        this.initSettings();
+        this.initThree();
+        this.initMessage();
+        this.initCountdown();
+        if (options.mode && hasFormation(options.mode) && options.mode !== Mode.FOCUS) this.mode = this.lastMode = options.mode;
+        this.createContent();
+        this.applyPalette(paletteFromConfig());
+        this.formationBar.setActive(this.mode);
+        this.initLibrary();
+        this.initVision();
+        this.initEvents();
+        this.initDebug();
+        this.initRemote();
+        this.applyQuality();
+        this.handLoop();
+        this.reported.mode = this.mode;
+        this.startLoop();
+    }
+
+    // 画布跟随容器大小；直接挂在 body 上时就是整个窗口
+    get width() {
+        return this.container === document.body ? window.innerWidth : this.container.clientWidth;
+    }
+
+    get height() {
+        return this.container === document.body ? window.innerHeight : this.container.clientHeight;
+    }
+
+    initThree() {
+        this.scene = new THREE.Scene();
+        this.scene.fog = new THREE.FogExp2(CONFIG.atmosphere.fog, CONFIG.atmosphere.fogDensity);
+        this.camera = new THREE.PerspectiveCamera(CONFIG.camera.fov, this.width / this.height, 0.1, 1000);
+        this.cameraRig = new CameraRig(this.camera);
+
+        this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+        this.renderer.setSize(this.width, this.height);
+        this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        this.renderer.toneMapping = THREE.ReinhardToneMapping;
+        this.renderer.toneMappingExposure = CONFIG.render.exposure;
+        // 画布可以获得焦点：嵌进别的页面时，点一下树之后快捷键才归树，不会抢走宿主页面的空格、回车
+        this.renderer.domElement.tabIndex = 0;
+        this.container.appendChild(this.renderer.domElement);
+        this.handSource.area = () => this.renderer.domElement.getBoundingClientRect();
+
+        const pmrem = new THREE.PMREMGenerator(this.renderer);
+        this.scene.environment = pmrem.fromScene(new RoomEnvironment(this.renderer), 0.04).texture;
+
+        this.composer = new EffectComposer(this.renderer);
+        this.composer.addPass(new RenderPass(this.scene, this.camera));
+        const { bloomStrength, bloomRadius, bloomThreshold } = CONFIG.render;
+        this.bloom = new UnrealBloomPass(new THREE.Vector2(this.width, this.height), bloomStrength, bloomRadius, bloomThreshold);
+        this.composer.addPass(this.bloom);
+        this.capture = new SceneCapture(this.renderer, this.composer, this.camera, this.scene);
+
+        this.ambientLight = new THREE.AmbientLight(0xffffff, 0.45);
+        this.scene.add(this.ambientLight);
+        this.sun = new THREE.DirectionalLight(0xd4af37, 1.5);
+        this.sun.position.set(10, 20, 10);
+        this.scene.add(this.sun);
+
+        this.mainGroup = new THREE.Group();
+        this.scene.add(this.mainGroup);
+
+        this.weather = new Weather(CONFIG.snow.capacity, createRandom(hashSeed(CONFIG.layout.seed, 'weather')));
+        this.scene.add(this.weather.points);
+        this.mainGroup.add(this.snowCover.mesh);
+        // 烟花在世界坐标里，不跟着树转
+        this.fireworks = new Fireworks(FIREWORK_CAPACITY);
+        this.scene.add(this.fireworks.points);
+    }
+
+    createContent() {
+        const trunkGeo = new THREE.CylinderGeometry(CONFIG.tree.trunkRadius * 0.8, CONFIG.tree.trunkRadius, CONFIG.tree.trunkHeight, 16);
+        const trunkMat = new THREE.MeshStandardMaterial({ color: CONFIG.colors.trunk, roughness: 1.0, metalness: 0.1 });
+        this.trunk = new THREE.Mesh(trunkGeo, trunkMat);
+        this.trunk.position.y = -CONFIG.tree.height / 2 - CONFIG.tree.trunkHeight / 2 + 1.5;
+        this.mainGroup.add(this.trunk);
+
+        const starShape = new THREE.OctahedronGeometry(1.2, 0);
+        const starMat = new THREE.MeshStandardMaterial({ 
+            color: CONFIG.colors.star, 
+            emissive: CONFIG.colors.star, 
+            emissiveIntensity: 3,
+            metalness: 1,
+            roughness: 0.05
+        });
+        this.star = new THREE.Mesh(starShape, starMat);
+        this.star.position.y = CONFIG.tree.height / 2 + 0.8;
+        this.mainGroup.add(this.star);
+
+        const needleGeo = new THREE.BoxGeometry(0.5, 0.08, 0.04);
+        const sphereGeo = new THREE.SphereGeometry(0.25, 12, 12);
+        const lightGeo = new THREE.SphereGeometry(0.15, 12, 12);
+        
+        const goldMat = new THREE.MeshStandardMaterial({ color: CONFIG.colors.gold, metalness: 0.9, roughness: 0.15 });
+        const greenMat = new THREE.MeshStandardMaterial({ roughness: 0.85, metalness: 0.05 });
+        const redMat = new THREE.MeshPhysicalMaterial({ color: CONFIG.colors.red, metalness: 0.6, clearcoat: 1.0 });
+        const lightMat = new THREE.MeshStandardMaterial({ color: CONFIG.colors.lightLow, emissive: CONFIG.colors.lightLow, emissiveIntensity: 2.5 });
+        
+        const random = createRandom(hashSeed(CONFIG.layout.seed, 'content'));
+        // 先决定每个粒子的种类，再按数量建好各自的实例批次
+        const kinds = Array.from({ length: CONFIG.tree.particles }, () => {
+            const r = random();
+            if (r < 0.82) return 'needle';
+            if (r < 0.90) return 'light';
+            return random() > 0.6 ? 'gold' : 'red';
+        });
+        const countOf = (k: string) => kinds.filter(x => x === k).length;
+        const batches = {
+            needle: new ParticleBatch(needleGeo, greenMat, countOf('needle')),
+            light: new ParticleBatch(lightGeo, lightMat, countOf('light')),
+            gold: new ParticleBatch(sphereGeo, goldMat, countOf('gold')),
+            red: new ParticleBatch(sphereGeo, redMat, countOf('red'))
+        };
+        this.batches = Object.values(batches);
+        this.batches.forEach(b => this.mainGroup.add(b.mesh));
+
+        kinds.forEach((kind, i) => {
+            const slot: PaletteSlot = kind === 'needle' ? Math.floor(random() * CONFIG.colors.greens.length) : kind;
+            const p = new Particle(batches[kind], kind === 'light' ? 'light' : 'deco', i, paletteColor(slot), random);
+            p.slot = slot;
+            this.particles.push(p);
+        });
+        // 批次内的实例顺序打乱，画质降档时截掉末尾的实例就是在整棵树上均匀抽稀
+        const shuffle = createRandom(hashSeed(CONFIG.layout.seed, 'instances'));
+        this.batches.forEach(b => {
+            const members = this.particles.filter(p => p.batch === b);
+            const slots = members.map((_, i) => i);
+            for (let i = slots.length - 1; i > 0; i--) {
+                const j = Math.floor(shuffle() * (i + 1));
+                [slots[i], slots[j]] = [slots[j], slots[i]];
+            }
+            members.forEach((p, i) => {
+                p.index = slots[i];
+                p.render(p.state.pos, p.state.scale);
+            });
+        });
+        this.batches.forEach(b => b.commit());
+
+        this.applyParticleQuality();
+        this.updateLayout();
+    }
+
+    // 树的尺寸、数量或颜色变化后重建粒子，照片和挂饰保留
+    rebuildContent() {
+        const kept = this.particles.filter(p => p.state.type === 'photo' || p.state.type === 'ornament');
+        [this.trunk, this.star, ...this.batches.map(b => b.mesh)].forEach(obj => {
+            this.mainGroup.remove(obj);
+            obj.geometry.dispose();
+            (obj.material as THREE.Material).dispose();
+        });
+        this.snowCover.reset();
+
+        this.particles = [];
+        this.batches = [];
+        this.createContent();
+        kept.forEach(p => {
+            if (p.state.type === 'photo') p.originalColor.set(CONFIG.colors.gold);
+            this.particles.push(p);
+        });
+        this.updateLayout();
+    }
+
+    // 相框按照片比例变形，面积和原来 4×3 的相框相同；极端的长图限制在 3:1 以内
+    frameGeometry(aspect: number) {
+        const a = THREE.MathUtils.clamp(aspect, 1 / 3, 3);
+        const width = Math.sqrt(12 * a);
+        return new THREE.BoxGeometry(width, 12 / width, 0.12);
+    }
+
+    addPhoto(tex: THREE.Texture, aspect: number, photoId?: string) {
+        const photoGeo = this.frameGeometry(aspect);
+        const frameMat = new THREE.MeshStandardMaterial({ color: CONFIG.colors.gold, metalness: 0.8, roughness: 0.2 });
+        const photoMat = new THREE.MeshBasicMaterial({ map: tex });
+        const mesh = new THREE.Mesh(photoGeo, [frameMat, frameMat, frameMat, frameMat, photoMat, frameMat]);
+        const id = this.nextItemId++;
+        const p = new Particle(mesh, 'photo', id, undefined, createRandom(hashSeed(CONFIG.layout.seed, 'photo', photoId ?? id)));
+        p.state.photoId = photoId;
+        p.slot = 'gold';
+        this.particles.push(p);
+        this.mainGroup.add(mesh);
+        this.updateLayout();
+    }
+
+    // --- 照片库：IndexedDB 是顺序和原图的唯一来源 ---
+    initLibrary() {
+        const root = document.getElementById('library-panel');
+        if (root) {
+            this.library = new LibraryPanel(root, {
+                remove: id => this.removePhoto(id),
+                move: (id, delta) => this.movePhoto(id, delta),
+                replace: (id, file) => this.replacePhoto(id, file),
+                caption: (id, caption) => this.setCaption(id, caption)
+            });
+            this.cleanup.push(() => this.library.dispose());
+        }
+        if (this.options.photos) {
+            this.photoStore = new MemoryPhotoStore();
+            this.libraryReady = Promise.resolve();
+            this.setPhotos(this.options.photos);
+        } else {
+            this.libraryReady = this.restorePhotos();
+        }
+    }
+
+    /**
+     * Replaces every photo on the tree with the given images (URLs are
+     * fetched, blobs used as they are). From then on the library lives in
+     * memory only, so photos saved on this device are left untouched.
+     * Overlapping calls are applied in order and only the last one sticks.
+     */
+    async setPhotos(sources: PhotoSource[]) {
+        const request = ++this.photoRequest;
+        const blobs = await Promise.all(sources.map((s, i) => {
+            const blob = typeof s === 'string'
+                ? fetch(s).then(r => {
+                    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+                    return r.blob();
+                })
+                : Promise.resolve(s);
+            return blob.catch(e => {
+                console.warn(`Photo ${photoName(s, i)} could not be loaded`, e);
+                return null;
+            });
+        }));
+        const exif = await Promise.all(blobs.map(b => b ? readExif(b) : null));
+
+        const previous = this.libraryReady;
+        const swap = (async () => {
+            await previous;
+            if (request !== this.photoRequest || this.disposed) return;
+            if (!(this.photoStore instanceof MemoryPhotoStore)) this.photoStore = new MemoryPhotoStore();
+            this.photoRecords.map(r => r.id).forEach(id => this.removePhoto(id));
+            this.ornamentRecords.map(r => r.id).forEach(id => this.removeOrnament(id));
+            const records: StoredPhoto[] = blobs.flatMap((blob, i) => blob
+                ? [{ id: createPhotoId(), blob, name: photoName(sources[i], i), order: i, takenAt: exif[i]?.takenAt }]
+                : []);
+            const added = await this.addRecords(records);
+            this.refreshLibrary();
+            await this.photoStore.put(...added);
+        })();
+        this.libraryReady = swap.catch(e => console.warn("Photo Library Swap Failed", e));
+        await this.libraryReady;
+    }
+
+    // 按顺序加载纹理并挂到树上，返回成功加入的记录
+    async addRecords(records: StoredPhoto[]) {
+        const loaded = await Promise.all(records.map(r => this.photoTextures.load(r.id, r.blob).catch(e => {
+            console.warn(`Photo ${r.name} could not be decoded`, e);
+            return null;
+        })));
+        return records.filter((r, i) => {
+            const photo = loaded[i];
+            if (!photo) return false;
+            this.photoRecords.push(r);
+            this.addPhoto(photo.texture, photo.aspect, r.id);
+            return true;
+        });
+    }
+
+    async restorePhotos() {
+        try {
+            await this.addRecords(await this.photoStore.list());
+            await this.addOrnaments(await this.photoStore.listOrnaments());
+        } catch(e) { console.warn("Photo Library Restore Failed", e); }
+        this.refreshLibrary();
+    }
+
+    async importFiles(files: File[]) {
+        await this.libraryReady;
+        const exif = await Promise.all(files.map(readExif));
+        const records: StoredPhoto[] = files.map((f, i) => ({
+            id: createPhotoId(), blob: f, name: f.name, order: this.photoRecords.length + i, takenAt: exif[i].takenAt
+        }));
+        const added = await this.addRecords(records);
+        this.placeByDate(added);
+        this.refreshLibrary();
+        this.photoStore.put(...added)
+            .then(() => this.photoStore.setOrder(this.photoRecords.map(r => r.id)))
+            .catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    // 新照片按拍摄时间插进照片库，排在第一张比它晚（或没有日期）的照片前面；之后一律以照片库顺序为准，可以手动调整
+    placeByDate(added: StoredPhoto[]) {
+        const fresh = new Set(added);
+        const records = this.photoRecords.filter(r => !fresh.has(r));
+        const dated = added.filter(r => r.takenAt !== undefined).sort((a, b) => a.takenAt! - b.takenAt!);
+        dated.forEach(r => {
+            const at = records.findIndex(o => o.takenAt === undefined || o.takenAt > r.takenAt!);
+            records.splice(at < 0 ? records.length : at, 0, r);
+        });
+        records.push(...added.filter(r => r.takenAt === undefined));
+        records.forEach((r, order) => r.order = order);
+        this.photoRecords = records;
+        this.syncPhotoOrder();
+    }
+
+    // 螺线布局按 particles 中照片出现的先后排列，所以照片库顺序变了要重排照片粒子
+    syncPhotoOrder() {
+        const photos = this.photoRecords.map(r => this.findPhoto(r.id)).filter((p): p is Particle => !!p);
+        this.particles = this.particles.filter(p => p.state.type !== 'photo').concat(photos);
+        this.updateLayout();
+    }
+
+    findPhoto(id: string) {
+        return this.particles.find(p => p.state.type === 'photo' && p.state.photoId === id);
+    }
+
+    removePhoto(id: string) {
+        const p = this.findPhoto(id);
+        if (p) {
+            if (p === this.photoTarget) this.exitFocus();
+            if (p === this.hoveredParticle) this.hoveredParticle = null;
+            this.forget(p);
+            const mesh = p.mesh as THREE.Mesh;
+            this.mainGroup.remove(mesh);
+            mesh.geometry.dispose();
+            // 纹理归 photoTextures 管，这里只释放材质
+            new Set(mesh.material as THREE.Material[]).forEach(m => m.dispose());
+            this.photoTextures.release(id);
+            this.particles.splice(this.particles.indexOf(p), 1);
+        }
+        this.photoRecords = this.photoRecords.filter(r => r.id !== id);
+        this.updateLayout();
+        this.refreshLibrary();
+        this.photoStore.remove(id).catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    movePhoto(id: string, delta: number) {
+        const from = this.photoRecords.findIndex(r => r.id === id);
+        const to = from + delta;
+        if (from < 0 || to < 0 || to >= this.photoRecords.length) return;
+        const [record] = this.photoRecords.splice(from, 1);
+        this.photoRecords.splice(to, 0, record);
+        this.syncPhotoOrder();
+        this.refreshLibrary();
+        this.photoStore.setOrder(this.photoRecords.map(r => r.id)).catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    async replacePhoto(id: string, file: File) {
+        const p = this.findPhoto(id);
+        const record = this.photoRecords.find(r => r.id === id);
+        if (!p || !record) return;
+        const photo = await this.photoTextures.load(id, file).catch(() => null);
+        if (!photo) {
+            showToast(`${file.name} could not be read as an image`, 'error');
+            return;
+        }
+        const mesh = p.mesh as THREE.Mesh;
+        mesh.geometry.dispose();
+        mesh.geometry = this.frameGeometry(photo.aspect);
+        this.applyPhotoTexture(id, photo.texture);
+        if (p === this.photoTarget) this.photoTextures.focus(id);
+        record.blob = file;
+        record.name = file.name;
+        record.takenAt = (await readExif(file)).takenAt;
+        this.updateLayout();
+        this.refreshLibrary();
+        if (p === this.photoTarget) this.showCaption(p);
+        this.photoStore.put(record).catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    applyPhotoTexture(id: string, tex: THREE.Texture) {
+        if (id.startsWith(ORNAMENT_TEXTURE)) {
+            const ornament = this.findOrnament(id.slice(ORNAMENT_TEXTURE.length));
+            if (!ornament) return;
+            const mat = ornament.mesh!.material as THREE.MeshBasicMaterial;
+            mat.map = tex;
+            mat.needsUpdate = true;
+            return;
+        }
+        const p = this.findPhoto(id);
+        if (!p) return;
+        const photoMat = (p.mesh!.material as THREE.Material[])[4] as THREE.MeshBasicMaterial;
+        photoMat.map = tex;
+        photoMat.needsUpdate = true;
+    }
+
+    setCaption(id: string, caption: string) {
+        const record = this.photoRecords.find(r => r.id === id);
+        if (!record) return;
+        record.caption = caption || undefined;
+        const p = this.findPhoto(id);
+        if (p && p === this.photoTarget) this.showCaption(p);
+        this.photoStore.put(record).catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    showCaption(p: Particle) {
+        const record = this.photoRecords.find(r => r.id === p.state.photoId);
+        this.captionOverlay.show(record?.caption, record?.takenAt);
+    }
+
+    refreshLibrary() {
+        this.library?.render(this.photoRecords);
+        this.publishRemote();
+    }
+
+    // --- 挂饰：和照片一样存在照片库里，自定义图片的纹理也交给 photoTextures ---
+    async addOrnaments(records: StoredOrnament[]) {
+        const images = await Promise.all(records.map(r => r.kind === 'image' && r.image
+            ? this.photoTextures.load(ORNAMENT_TEXTURE + r.id, r.image).catch(e => {
+                console.warn(`Ornament ${r.name} could not be decoded`, e);
+                return null;
+            })
+            : null));
+        const added = records.filter((r, i) => {
+            const image = images[i];
+            if (r.kind === 'image' && !image) return false;
+            const mesh = createOrnamentMesh(r.kind, image ?? undefined);
+            const id = this.nextItemId++;
+            const p = new Particle(mesh, 'ornament', id, undefined, createRandom(hashSeed(CONFIG.layout.seed, 'ornament', r.id)));
+            p.state.ornamentId = r.id;
+            if (r.kind === 'bell') p.slot = 'gold';
+            this.ornamentRecords.push(r);
+            this.particles.push(p);
+            this.mainGroup.add(mesh);
+            return true;
+        });
+        this.updateLayout();
+        return added;
+    }
+
+    findOrnament(id: string) {
+        return this.particles.find(p => p.state.type === 'ornament' && p.state.ornamentId === id);
+    }
+
+    removeOrnament(id: string) {
+        const p = this.findOrnament(id);
+        if (p) {
+            if (p === this.hoveredParticle) this.hoveredParticle = null;
+            this.forget(p);
+            const mesh = p.mesh as THREE.Mesh;
+            const mat = mesh.material as THREE.MeshStandardMaterial;
+            this.mainGroup.remove(mesh);
+            mesh.geometry.dispose();
+            // 画出来的贴图跟着材质走，图片挂饰的纹理由 photoTextures 释放
+            if (!this.photoTextures.entries.has(ORNAMENT_TEXTURE + id)) mat.map?.dispose();
+            mat.dispose();
+            this.photoTextures.release(ORNAMENT_TEXTURE + id);
+            this.particles.splice(this.particles.indexOf(p), 1);
+        }
+        this.ornamentRecords = this.ornamentRecords.filter(r => r.id !== id);
+        this.updateLayout();
+        this.photoStore.removeOrnament(id).catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    // 照片或挂饰在库里的记录，固定的位置就存在上面
+    recordOf(p: Particle): StoredPhoto | StoredOrnament | undefined {
+        if (p.state.type === 'photo') return this.photoRecords.find(r => r.id === p.state.photoId);
+        if (p.state.type === 'ornament') return this.ornamentRecords.find(r => r.id === p.state.ornamentId);
+        return undefined;
+    }
+
+    saveRecord(p: Particle) {
+        const record = this.recordOf(p);
+        if (!record) return;
+        const saved = p.state.type === 'photo' ? this.photoStore.put(record as StoredPhoto) : this.photoStore.putOrnament(record as StoredOrnament);
+        saved.catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    // --- 摆放编辑：TREE 阵型里把照片和挂饰拖到树上固定，别的阵型照常按程序摆放 ---
+    setEditing(on: boolean) {
+        if (on === this.editing) return;
+        this.editing = on;
+        this.editorPanel?.toggle(on);
+        if (on) {
+            if (this.slideshow.active) this.stopSlideshow();
+            this.show.stop();
+            this.burstUntil = 0;
+            this.setFormation(Mode.TREE);
+        } else {
+            this.endDrag();
+            this.selected = null;
+        }
+        this.renderEditor();
+    }
+
+    renderEditor() {
+        const p = this.selected;
+        const record = p && this.recordOf(p);
+        this.editorPanel?.render(record ? { name: record.name, pinned: !!record.pin, removable: p!.state.type === 'ornament' } : null);
+    }
+
+    select(p: Particle | null) {
+        this.selected = p;
+        this.renderEditor();
+    }
+
+    // 照片或挂饰被删掉时，不再选中或拖着它
+    forget(p: Particle) {
+        if (p === this.dragging?.particle) this.dragging = null;
+        if (p === this.selected) this.select(null);
+    }
+
+    // 指针下的照片或挂饰；只看有独立网格的粒子，针叶挡在前面也能抓到后面的照片
+    pickItem(): Particle | null {
+        if (!this.pointer.active) return null;
+        this.aimPointer();
+        const meshes = this.particles.filter(p => p.mesh && p.active).map(p => p.mesh!);
+        const hit = this.raycaster.intersectObjects(meshes, false)[0];
+        return hit ? (hit.object as any).particle as Particle : null;
+    }
+
+    startDrag() {
+        const p = this.pickItem();
+        this.select(p);
+        this.dragging = p && { particle: p, x: this.pointer.x, y: this.pointer.y, moved: false };
+    }
+
+    // 拖动时每帧把指针的射线换到树的坐标系里，落在树面上的点就是新的固定位置
+    updateDrag() {
+        const drag = this.dragging;
+        if (!drag || !this.pointer.active) return;
+        if (!drag.moved && Math.hypot(this.pointer.x - drag.x, this.pointer.y - drag.y) < DRAG_THRESHOLD) return;
+        const record = this.recordOf(drag.particle);
+        const formation = this.formation;
+        if (!record || !formation.placePinned) return;
+
+        this.aimPointer();
+        this.mainGroup.updateMatrixWorld();
+        _ray.copy(this.raycaster.ray).applyMatrix4(_inverse.copy(this.mainGroup.matrixWorld).invert());
+        record.pin = pinFromPoint(hitTree(_ray, _hit));
+        // 第一次挪动时它离开了螺线，其余照片重新排一遍
+        if (!drag.moved) this.updateLayout();
+        else formation.placePinned(drag.particle, record.pin);
+        drag.moved = true;
+        // 跟手，不等插值
+        drag.particle.state.pos.copy(drag.particle.state.target);
+    }
+
+    endDrag() {
+        const drag = this.dragging;
+        this.dragging = null;
+        if (!drag?.moved) return;
+        this.renderEditor();
+        this.saveRecord(drag.particle);
+    }
+
+    unpinSelected() {
+        const p = this.selected;
+        const record = p && this.recordOf(p);
+        if (!record?.pin) return;
+        record.pin = undefined;
+        this.updateLayout();
+        this.renderEditor();
+        this.saveRecord(p!);
+    }
+
+    removeSelected() {
+        const id = this.selected?.state.ornamentId;
+        if (id) this.removeOrnament(id);
+    }
+
+    // 新挂饰挂在树朝着相机的一面，高度随机一点，连着加几个也不会叠在一起
+    async addOrnament(kind: OrnamentKind, image?: File) {
+        await this.libraryReady;
+        const label = ORNAMENT_KINDS.find(k => k.id === kind)?.label ?? 'IMAGE';
+        const count = this.ornamentRecords.filter(r => r.kind === kind).length;
+        this.mainGroup.updateMatrixWorld();
+        const eye = this.mainGroup.worldToLocal(_hit.copy(this.camera.position));
+        const pin: TreePin = { height: 0.25 + Math.random() * 0.5, angle: Math.atan2(eye.z, eye.x) + (Math.random() - 0.5) * 0.8 };
+        const record: StoredOrnament = {
+            id: createPhotoId(), kind, pin, image,
+            name: image ? image.name : `${label} ${count + 1}`,
+            order: this.ornamentRecords.reduce((n, r) => Math.max(n, r.order + 1), 0)
+        };
+        const [added] = await this.addOrnaments([record]);
+        if (!added) {
+            showToast(`${image?.name ?? label} could not be read as an image`, 'error');
+            return;
+        }
+        if (this.editing) this.select(this.findOrnament(record.id) ?? null);
+        this.photoStore.putOrnament(record).catch(e => console.warn("Photo Library Save Failed", e));
+    }
+
+    // --- 整棵树的导出/导入 ---
+    async exportTree() {
+        try {
+            await this.libraryReady;
+            const blob = await exportArchive({
+                mode: this.mode === Mode.FOCUS ? this.lastMode : this.mode,
+                config: JSON.parse(JSON.stringify(CONFIG)),
+                photos: this.photoRecords,
+                ornaments: this.ornamentRecords
+            });
+            downloadBlob(blob, `memory-tree-${new Date().toISOString().slice(0, 10)}.zip`);
+            showToast(`Exported ${this.photoRecords.length} memories`);
+        } catch(e) {
+            console.warn("Tree Export Failed", e);
+            showToast('Export failed', 'error');
+        }
+    }
+
+    async importTree(file: File) {
+        try {
+            const snapshot = await importArchive(file, CONFIG, listFormations().map(f => f.id));
+            await this.libraryReady;
+
+            // 先把存档里的照片和挂饰全部解码挂上，都成功了才换掉原来的照片库
+            const oldPhotos = this.photoRecords.map(r => r.id);
+            const oldOrnaments = this.ornamentRecords.map(r => r.id);
+            const added = await this.addRecords(snapshot.photos);
+            const ornaments = await this.addOrnaments(snapshot.ornaments);
+            // 撤回新挂上的；removePhoto/removeOrnament 也会删掉已经存进库里的那部分
+            const rollBack = () => {
+                added.forEach(r => this.removePhoto(r.id));
+                ornaments.forEach(r => this.removeOrnament(r.id));
+            };
+            if (added.length < snapshot.photos.length || ornaments.length < snapshot.ornaments.length) {
+                rollBack();
+                const failed = snapshot.photos.find(r => !added.includes(r)) ?? snapshot.ornaments.find(r => !ornaments.includes(r));
+                throw new ArchiveError(`${failed?.name ?? 'An image'} could not be decoded, so nothing was changed`);
+            }
+            try {
+                await this.photoStore.put(...added);
+                for (const ornament of ornaments) await this.photoStore.putOrnament(ornament);
+            } catch(e) {
+                console.warn("Photo Library Save Failed", e);
+                rollBack();
+                throw new ArchiveError('the browser would not store the photos (storage full or blocked), so nothing was changed');
+            }
+            oldPhotos.forEach(id => this.removePhoto(id));
+            oldOrnaments.forEach(id => this.removeOrnament(id));
+
+            // 面板上的设置项经 SettingsStore 写入并保存，刷新页面后还是存档里的样子
+            this.settings.assign(snapshot.config);
+            if (this.themes.find(CONFIG.theme)) this.themes.select(CONFIG.theme);
+            this.settingsPanel?.refresh();
+            this.themePicker?.render(this.themes.all, CONFIG.theme);
+            const messageInput = document.getElementById('message-input') as HTMLInputElement | null;
+            if (messageInput) messageInput.value = CONFIG.text.message;
+            this.renderCountdownPanel();
+            await this.loadTextFont();
+            this.rebuildContent();
+            this.applyPalette(paletteFromConfig());
+
+            this.photoTarget = null;
+            this.mode = snapshot.mode === Mode.FOCUS ? Mode.TREE : snapshot.mode;
+            this.lastMode = this.mode;
+            this.formationBar.setActive(this.mode);
+            this.updateLayout();
+            this.refreshLibrary();
+            showToast(`Imported ${added.length} memories from ${file.name}`);
+        } catch(e) {
+            console.warn("Tree Import Failed", e);
+            showToast(e instanceof ArchiveError ? `Import failed: ${e.message}` : 'Import failed: the file could not be read', 'error');
+        }
+    }
+
+    get formation(): Formation {
+        return getFormation(this.mode);
+    }
+
+    updateLayout() {
+        const formation = this.formation;
+        // 固定了位置的照片和挂饰交给阵型单独摆放，照片不再占螺线上的位置
+        const pins = new Map<Particle, TreePin>();
+        if (formation.placePinned) {
+            this.particles.forEach(p => {
+                const pin = p.mesh ? this.recordOf(p)?.pin : undefined;
+                if (pin) pins.set(p, pin);
+            });
+        }
+        const ctx: FormationContext = {
+            photos: this.particles.filter(p => p.state.type === 'photo' && !pins.has(p)),
+            deco: this.particles.filter(p => p.state.type === 'deco' || p.state.type === 'light'),
+            focusTarget: this.photoTarget,
+            random: Math.random
+        };
+        const seed = CONFIG.layout.seed;
+        ctx.deco.forEach((p, i) => {
+            ctx.random = createRandom(hashSeed(seed, formation.id, p.state.id));
+            formation.placeDeco(p, i, ctx);
+        });
+        ctx.photos.forEach((p, i) => {
+            ctx.random = createRandom(hashSeed(seed, formation.id, p.state.photoId ?? p.state.id));
+            formation.placePhoto(p, i, ctx);
+        });
+        // 没固定的挂饰混在装饰里，按自己的 id 借一个装饰的位置
+        this.particles.forEach(p => {
+            if (p.state.type !== 'ornament' || pins.has(p)) return;
+            ctx.random = createRandom(hashSeed(seed, formation.id, p.state.ornamentId!));
+            formation.placeDeco(p, Math.floor(ctx.random() * ctx.deco.length), ctx);
+        });
+        pins.forEach((pin, p) => formation.placePinned!(p, pin));
+    }
+
+    setFormation(id: string) {
+        if (!hasFormation(id) || id === Mode.FOCUS) return;
+        // 固定的位置只在 TREE 里有意义，换到别的阵型就结束编辑
+        if (id !== Mode.TREE) this.setEditing(false);
+        this.formationBar.setActive(id);
+        if (this.mode === Mode.FOCUS) {
+            // 退出聚焦时直接回到新阵型
+            this.lastMode = id;
+            this.exitFocus();
+        } else if (id !== this.mode) {
+            if (id === Mode.SCATTER) this.spreadFrom = this.mode;
+            this.mode = id;
+            this.updateLayout();
+        }
+    }
+
+    // 主题、保存的设置和 URL 参数（如 ?theme=neon、?tree.height=22、?seed=7）要在建场景之前写进 CONFIG
+    initSettings() {
+        let theme = this.themes.load(this.search);
+        const requested = this.options.theme && this.themes.find(this.options.theme);
+        if (requested) theme = requested;
+        CONFIG.theme = theme.id;
+        assignConfig(CONFIG, structuredClone(theme.palette));
+        this.settings.load(this.search);
+        if (this.options.config) this.overrideConfig(this.options.config);
+        this.quality.auto = CONFIG.quality.auto;
+        this.quality.set(CONFIG.quality.tier);
+    }
+
+    // 宿主传入的配置按 CONFIG 的结构和设置的范围校验，有不合格的项时整份忽略；只写进内存，盖在保存的设置上面，不写回存储
+    overrideConfig(overrides: Record<string, unknown>): Record<string, unknown> | null {
+        try {
+            const config = validateConfig(CONFIG, overrides);
+            assignConfig(CONFIG, config);
+            return config;
+        } catch(e) {
+            console.warn("Config Override Ignored", e);
+            return null;
+        }
+    }
+
+    // 运行中覆盖配置：树的尺寸或种子变了就重建，否则重新排布并刷新颜色
+    configure(overrides: Record<string, unknown>) {
+        const config = this.overrideConfig(overrides);
+        if (!config) return;
+        if ('quality' in config) {
+            this.quality.auto = CONFIG.quality.auto;
+            this.quality.set(CONFIG.quality.tier);
+            this.applyQuality();
+        }
+        if ('tree' in config || 'layout' in config) this.rebuildContent();
+        else this.updateLayout();
+        if ('text' in config) {
+            this.loadTextFont().then(() => {
+                if (this.mode === Mode.TEXT) this.updateLayout();
+            });
+        }
+        this.applyPalette(paletteFromConfig());
+        this.settingsPanel?.refresh();
+        this.renderCountdownPanel();
+    }
+
+    /**
+     * Applies options from the host; the React component calls this on
+     * every render. Only values that differ from the previous call are
+     * applied, so passing the same props again costs nothing.
+     */
+    setOptions(next: HolidayAppOptions) {
+        const prev = this.options;
+        this.options = { ...prev, ...next };
+        if (next.events) this.events = next.events;
+        if (next.theme && next.theme !== prev.theme) this.setTheme(next.theme);
+        if (next.config && JSON.stringify(next.config) !== JSON.stringify(prev.config)) this.configure(next.config);
+        if (next.mode && next.mode !== prev.mode) this.setMode(next.mode);
+        if (next.photos && !samePhotos(next.photos, prev.photos)) this.setPhotos(next.photos);
+        if (next.camera !== undefined && next.camera !== (prev.camera ?? true)) this.setCameraEnabled(next.camera);
+    }
+
+    // 宿主切换阵型，与点阵型按钮的效果相同
+    setMode(id: string) {
+        if (this.slideshow.active) this.stopSlideshow();
+        this.burstUntil = 0;
+        this.setFormation(id);
+    }
+
+    applySetting(spec: SettingSpec, final: boolean) {
+        if (spec.path.startsWith('quality.')) this.applyQualitySettings(spec);
+        else if (spec.apply === 'live') this.applyPalette(paletteFromConfig());
+        else if (spec.apply === 'layout') this.updateLayout();
+        else if (final) this.rebuildContent();
+    }
+
+    // 泛光强度每帧在 updateAudio 里按 CONFIG 设置（有音乐时叠加节拍）
+    applyRenderSettings() {
+        this.renderer.toneMappingExposure = CONFIG.render.exposure;
+        this.bloom.radius = CONFIG.render.bloomRadius;
+        this.bloom.threshold = CONFIG.render.bloomThreshold;
+        if (this.camera.fov !== CONFIG.camera.fov) {
+            this.camera.fov = CONFIG.camera.fov;
+            this.camera.updateProjectionMatrix();
+        }
+    }
+
+    // 颜色与泛光回到当前主题的值，其余回到默认
+    resetSettings() {
+        this.settings.reset();
+        const theme = this.themes.find(CONFIG.theme);
+        if (theme) assignConfig(CONFIG, structuredClone(theme.palette));
+        this.applyPalette(paletteFromConfig());
+        this.settingsPanel?.refresh();
+        this.renderCountdownPanel();
+        this.rebuildContent();
+    }
+
+    async shareSettings() {
+        const url = new URL(this.settings.shareUrl(location.href));
+        // 自定义主题只存在本机，链接里靠具体的颜色参数还原
+        if (this.themes.find(CONFIG.theme)?.custom) url.searchParams.delete('theme');
+        else url.searchParams.set('theme', CONFIG.theme);
+        try {
+            await navigator.clipboard.writeText(url.toString());
+            showToast('Link with these settings copied');
+        } catch(e) {
+            console.warn("Copy Failed", e);
+            showToast('Could not copy the link', 'error');
+        }
+    }
+
+    // --- 主题 ---
+
+    setTheme(id: string) {
+        const theme = this.themes.find(id);
+        if (!theme) return;
+        this.themes.select(id);
+        CONFIG.theme = id;
+        // 主题接管颜色与泛光，设置面板里对这些项的单独调整作废
+        this.settings.forget(['colors.', 'render.', 'atmosphere.']);
+        this.themeFade.start(paletteFromConfig(), theme.palette);
+        this.themePicker?.render(this.themes.all, id);
+        this.publishRemote();
+    }
+
+    saveTheme(label: string) {
+        const theme = this.themes.save(label, paletteFromConfig());
+        CONFIG.theme = theme.id;
+        this.themePicker?.render(this.themes.all, theme.id);
+        showToast(`Saved theme ${theme.label}`);
+    }
+
+    removeTheme(id: string) {
+        this.themes.remove(id);
+        if (CONFIG.theme === id) this.setTheme(this.themes.selected);
+        else this.themePicker?.render(this.themes.all, CONFIG.theme);
+    }
+
+    // 把调色板写进 CONFIG 并推到粒子、材质、雾和 HUD 上；主题淡入期间每帧调用
+    // 粒子只换 originalColor，Particle.update 会自己渐变过去
+    applyPalette(palette: ThemePalette) {
+        assignConfig(CONFIG, palette);
+        this.particles.forEach(p => {
+            if (p.slot !== null) p.originalColor.set(paletteColor(p.slot));
+        });
+        (this.trunk.material as THREE.MeshStandardMaterial).color.set(CONFIG.colors.trunk);
+        const star = this.star.material as THREE.MeshStandardMaterial;
+        star.color.set(CONFIG.colors.star);
+        star.emissive.set(CONFIG.colors.star);
+        this.weather.material.uniforms.uColor.value.set(CONFIG.colors.snow);
+        this.snowCover.material.color.set(CONFIG.colors.snow);
+        this.snowCover.material.emissive.set(CONFIG.colors.snow);
+
+        const { background, fog, fogDensity } = CONFIG.atmosphere;
+        this.scene.fog.color.set(fog);
+        this.scene.fog.density = fogDensity;
+        const hex = (c: number) => '#' + c.toString(16).padStart(6, '0');
+        const rgb = (c: number) => `${c >> 16 & 255},${c >> 8 & 255},${c & 255}`;
+        const css = document.documentElement.style;
+        css.setProperty('--gold', hex(CONFIG.hud.accent));
+        css.setProperty('--gold-rgb', rgb(CONFIG.hud.accent));
+        css.setProperty('--rose', hex(CONFIG.hud.alert));
+        css.setProperty('--rose-rgb', rgb(CONFIG.hud.alert));
+        css.setProperty('--obsidian', hex(background));
+        this.applyRenderSettings();
+    }
+
+    // 文字阵型的内容：URL 里的 ?message= 优先，并直接以文字阵型开场
+    initMessage() {
+        const param = new URLSearchParams(this.search).get('message')?.trim();
+        if (param) {
+            CONFIG.text.message = param;
+            this.mode = this.lastMode = Mode.TEXT;
+        }
+        const input = document.getElementById('message-input') as HTMLInputElement | null;
+        if (input) input.value = CONFIG.text.message;
+        this.loadTextFont().then(() => {
+            if (this.mode === Mode.TEXT) this.updateLayout();
+        });
+    }
+
+    // 中日韩字形按需下载，采样前先等字体就绪，否则会按后备字体排布
+    async loadTextFont() {
+        await document.fonts?.load(TEXT_FONT, CONFIG.text.message).catch(() => []);
+        textFormation.invalidate();
+    }
+
+    async setMessage(text: string) {
+        const message = text.trim();
+        if (!message) return;
+        CONFIG.text.message = message;
+        await this.loadTextFont();
+        if (this.mode === Mode.TEXT) this.updateLayout();
+        else this.setFormation(Mode.TEXT);
+    }
+
+    async initVision() {
+        if (!this.cameraEnabled) {
+            this.setVisionStatus('off');
+            this.hideLoader();
+            return;
+        }
+        this.setVisionStatus('loading');
+        try {
+            if (!this.landmarker) {
+                const { landmarker, delegate, source } = await loadHandLandmarker(2);
+                if (this.disposed) {
+                    landmarker.close();
+                    return;
+                }
+                this.landmarker = landmarker;
+                this.visionDelegate = `${delegate}${source === 'cdn' ? ' · CDN' : ''}`;
+            }
+            this.video ??= (document.getElementById('vision-feed') as HTMLVideoElement | null) ?? this.createVideo();
+            if (!this.stream) {
+                const stream = await openCamera(this.video);
+                // 等待授权期间可能已经卸载、关掉了摄像头，或者另一次调用抢先打开了
+                if (this.disposed || !this.cameraEnabled || this.stream) {
+                    closeCamera(stream, this.video);
+                    return;
+                }
+                this.stream = stream;
+            }
+            this.setVisionStatus('ready', this.visionDelegate);
+        } catch(e) {
+            console.warn("Vision Init Failed", e);
+            const err = e instanceof VisionError ? e : new VisionError('model-failed', String(e));
+            this.setVisionStatus(err.kind, err.message);
+        }
+        this.hideLoader();
+    }
+
+    // 宿主页面没有 #vision-feed 时自己建一个隐藏的 video，dispose 时移除
+    createVideo() {
+        const video = document.createElement('video');
+        video.autoplay = video.playsInline = video.muted = true;
+        video.style.display = 'none';
+        this.container.appendChild(video);
+        this.cleanup.push(() => video.remove());
+        return video;
+    }
+
+    setCameraEnabled(on: boolean) {
+        this.cameraEnabled = on;
+        if (on) {
+            if (!this.stream) this.initVision();
+            return;
+        }
+        if (this.stream) closeCamera(this.stream, this.video);
+        this.stream = null;
+        // 送一帧空结果，让手势状态和光标正常收尾
+        if (!this.replay) this.handSource.process({ landmarks: [], worldLandmarks: [], handednesses: [] }, performance.now());
+        this.setVisionStatus('off');
+    }
+
+    setVisionStatus(status: VisionStatus, detail = '') {
+        this.visionStatus.set(status, detail);
+        this.events.visionStatus?.(status, detail);
+    }
+
+    hideLoader() {
+        document.getElementById('loader')?.classList.add('fade-out');
+        setTimeout(() => document.getElementById('loader')?.remove(), 1000);
+    }
+
+    onResize() {
+        // 录像期间画布尺寸固定，结束后会再调用一次
+        if (this.capture.busy) return;
+        this.camera.aspect = this.width / this.height;
+        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(this.width, this.height);
+        this.composer.setSize(this.width, this.height);
+
+        // composer 按画布分辨率设置了泛光缓冲，低画质档再按比例缩小或直接关掉
+        const { bloom } = this.quality.current;
+        this.bloom.enabled = bloom > 0;
+        if (bloom > 0 && bloom < 1) {
+            const ratio = this.renderer.getPixelRatio() * bloom;
+            this.bloom.setSize(Math.round(this.width * ratio), Math.round(this.height * ratio));
+        }
+    }
+
+    // --- 画质档位 ---
+
+    applyQuality() {
+        const ratio = Math.min(window.devicePixelRatio, this.quality.current.pixelRatio);
+        this.renderer.setPixelRatio(ratio);
+        this.composer.setPixelRatio(ratio);
+        this.onResize();
+        this.applyParticleQuality();
+    }
+
+    applyParticleQuality() {
+        const { particles, snow } = this.quality.current;
+        this.batches.forEach(b => b.setActive(particles));
+        this.weather.quality = snow;
+        this.fireworks.quality = particles;
+    }
+
+    applyQualitySettings(spec: SettingSpec) {
+        this.quality.auto = CONFIG.quality.auto;
+        // 手动选档或关掉自适应时，直接切到设置里的档位
+        if (spec.path === 'quality.tier' || !CONFIG.quality.auto) this.quality.set(CONFIG.quality.tier);
+        this.applyQuality();
+    }
+
+    // 手势识别按画质档位的频率单独调度，不跟渲染帧绑定；标签页隐藏时跳过
+    handLoop = () => {
+        this.handTimer = window.setTimeout(this.handLoop, 1000 / this.quality.current.handRate);
+        if (!document.hidden) this.processHand();
+    };
+
+    // 登记的监听在 dispose 时统一移除；target 为空时什么也不做
+    listen<E extends Event = Event>(target: EventTarget | null, type: string, handler: (e: E) => void) {
+        if (!target) return;
+        target.addEventListener(type, handler as EventListener);
+        this.cleanup.push(() => target.removeEventListener(type, handler as EventListener));
+    }
+
+    initEvents() {
+        this.cleanup.push(() => this.formationBar.dispose(), () => this.slideshowIndicator.dispose(), () => this.visionStatus.dispose());
+        this.listen(window, 'resize', () => this.onResize());
+        if (this.container !== document.body) {
+            const observer = new ResizeObserver(() => this.onResize());
+            observer.observe(this.container);
+            this.cleanup.push(() => observer.disconnect());
+        }
+        this.listen(document, 'visibilitychange', () => document.hidden ? this.stopLoop() : this.startLoop());
+
+        this.input.subscribe(intent => this.handleIntent(intent));
+        this.pointerSource = new PointerSource(this.input, this.renderer.domElement);
+        this.keyboardSource = new KeyboardSource(this.input, this.container, Object.fromEntries(listFormations().filter(f => f.key).map(f => [f.key, f.id])));
+
+        this.listen(document.getElementById('upload'), 'change', (e: any) => {
+            this.importFiles(Array.from(e.target.files as FileList));
+            e.target.value = '';
+        });
+
+        const messageInput = document.getElementById('message-input') as HTMLInputElement | null;
+        this.listen<KeyboardEvent>(messageInput, 'keydown', e => {
+            if (e.key === 'Enter') this.setMessage(messageInput.value);
+            if (e.key === 'Enter' || e.key === 'Escape') messageInput.blur();
+        });
+
+        this.listen(document.getElementById('library-toggle'), 'click', () => this.library?.toggle());
+        const captureRoot = document.getElementById('capture-panel');
+        if (captureRoot) {
+            this.capturePanel = new CapturePanel(captureRoot, document.getElementById('rec-indicator'), {
+                record: (size, length) => this.recordVideo(size, length),
+                stop: () => this.capture.stop(),
+                snapshot: scale => this.saveSnapshot(scale)
+            });
+            this.cleanup.push(() => this.capturePanel?.dispose());
+        }
+        this.listen(document.getElementById('capture-toggle'), 'click', () => this.capturePanel?.toggle());
+        const audioRoot = document.getElementById('audio-panel');
+        if (audioRoot) {
+            this.audioPanel = new AudioPanel(audioRoot, CONFIG.audio, {
+                file: file => this.startAudio(() => this.audio.playFile(file)),
+                microphone: () => this.startAudio(() => this.audio.useMicrophone()),
+                stop: () => this.audio.stop()
+            });
+            this.cleanup.push(() => this.audioPanel?.dispose());
+        }
+        this.listen(document.getElementById('audio-toggle'), 'click', () => this.audioPanel?.toggle());
+        const themeRoot = document.getElementById('theme-picker');
+        if (themeRoot) {
+            this.themePicker = new ThemePicker(themeRoot, {
+                select: id => this.setTheme(id),
+                save: label => this.saveTheme(label),
+                remove: id => this.removeTheme(id)
+            });
+            this.themePicker.render(this.themes.all, CONFIG.theme);
+            this.cleanup.push(() => this.themePicker?.dispose());
+        }
+        const settingsRoot = document.getElementById('settings-panel');
+        if (settingsRoot) {
+            this.settingsPanel = new SettingsPanel(settingsRoot, this.settings, {
+                change: (spec, final) => this.applySetting(spec, final),
+                reset: () => this.resetSettings(),
+                share: () => this.shareSettings()
+            });
+            this.cleanup.push(() => this.settingsPanel?.dispose());
+        }
+        this.listen(document.getElementById('settings-toggle'), 'click', () => this.settingsPanel?.toggle());
+        const cameraRoot = document.getElementById('camera-panel');
+        this.cameraPaths.load();
+        if (cameraRoot) {
+            this.cameraPanel = new CameraPanel(cameraRoot, {
+                play: id => this.playCameraPath(id),
+                remove: id => this.removeCameraPath(id),
+                stop: () => this.stopCameraPath(),
+                reset: () => this.input.emit({ type: 'resetView', source: 'mouse' }),
+                key: gap => this.addCameraKey(gap),
+                preview: () => this.previewCameraDraft(),
+                clear: () => this.clearCameraDraft(),
+                save: label => this.saveCameraPath(label)
+            });
+            this.renderCameraPanel();
+            this.cleanup.push(() => this.cameraPanel?.dispose());
+        }
+        this.listen(document.getElementById('camera-toggle'), 'click', () => this.cameraPanel?.toggle());
+        const countdownRoot = document.getElementById('countdown-panel');
+        if (countdownRoot) {
+            this.countdownPanel = new CountdownPanel(countdownRoot, {
+                schedule: target => this.setCountdown('countdown.target', target),
+                greeting: text => this.setCountdown('countdown.greeting', text),
+                finale: id => this.setCountdown('countdown.finale', id),
+                play: () => this.playShow(),
+                rehearse: () => this.rehearseShow(),
+                realTime: () => this.countdown.realTime()
+            });
+            this.renderCountdownPanel();
+            this.cleanup.push(() => this.countdownPanel?.dispose());
+        }
+        this.listen(document.getElementById('countdown-toggle'), 'click', () => this.countdownPanel?.toggle());
+        const editorRoot = document.getElementById('editor-panel');
+        if (editorRoot) {
+            this.editorPanel = new EditorPanel(editorRoot, {
+                add: kind => this.addOrnament(kind),
+                image: file => this.addOrnament('image', file),
+                unpin: () => this.unpinSelected(),
+                remove: () => this.removeSelected(),
+                done: () => this.setEditing(false)
+            });
+            this.renderEditor();
+            this.cleanup.push(() => this.editorPanel?.dispose());
+        }
+        this.listen(document.getElementById('editor-toggle'), 'click', () => this.input.emit({ type: 'edit', source: 'mouse' }));
+        const remoteRoot = document.getElementById('remote-panel');
+        if (remoteRoot) {
+            this.remotePanel = new RemotePanel(remoteRoot, {
+                start: () => this.startRemote(),
+                stop: () => this.stopRemote(),
+                copy: () => this.copyRemoteLink()
+            });
+            this.updateRemotePanel();
+            this.cleanup.push(() => this.remotePanel?.dispose());
+        }
+        // 第一次打开面板时就开始配对
+        this.listen(document.getElementById('remote-toggle'), 'click', () => {
+            this.remotePanel?.toggle();
+            if (this.remotePanel?.visible && !this.remote.active) this.startRemote();
+        });
+        this.listen(document.getElementById('slideshow-toggle'), 'click', () => this.input.emit({ type: 'slideshow', source: 'mouse' }));
+        this.listen(document.getElementById('export-tree'), 'click', () => this.exportTree());
+        this.listen(document.getElementById('import-tree'), 'change', (e: any) => {
+            const file = e.target.files?.[0];
+            if (file) this.importTree(file);
+            e.target.value = '';
+        });
+    }
+
+    processHand() {
+        const now = performance.now();
+        if (this.replay) {
+            // 回放时完全替代摄像头，时间戳用录制时的时间轴
+            const replay = this.replay;
+            const frames = replay.due(now);
+            frames.forEach(f => this.handSource.process(frameToResult(f), replay.startTime + f.t));
+            if (frames.length) this.overlay.draw(frames[frames.length - 1].hands, `REPLAY ${(Math.min(now - replay.startTime, replay.duration) / 1000).toFixed(1)}s / ${(replay.duration / 1000).toFixed(1)}s`);
+            if (replay.finished) this.stopReplay();
+            return;
+        }
+
+        if (!this.landmarker || !this.video || this.video.readyState < 2) return;
+        const result = this.landmarker.detectForVideo(this.video, now);
+        this.recorder.push(result, now);
+        this.handSource.process(result, now);
+        this.overlay.draw(result.landmarks ?? [], this.recorder.recording ? `● REC ${this.recorder.frames.length}` : '');
+    }
+
+    // --- 手势录制/回放（URL 带 ?debug 时显示面板，?replay=<json 路径> 自动回放） ---
+    initDebug() {
+        this.overlay = new LandmarkOverlay();
+        const params = new URLSearchParams(this.search);
+        const panel = document.getElementById('debug-panel');
+        if (params.has('debug') && panel) panel.classList.remove('debug-hidden');
+
+        const recBtn = document.getElementById('debug-record');
+        this.listen(recBtn, 'click', () => {
+            if (this.recorder.recording) {
+                const recording = this.recorder.stop();
+                downloadBlob(new Blob([JSON.stringify(recording)], { type: 'application/json' }), `hand-session-${Date.now()}.json`);
+                showToast(`Recorded ${recording.frames.length} frames`);
+                recBtn.textContent = 'REC';
+            } else if (this.landmarker && this.stream) {
+                this.recorder.start(performance.now());
+                recBtn.textContent = 'STOP';
+            } else {
+                showToast('Recording needs a live camera', 'error');
+            }
+        });
+        this.listen(document.getElementById('debug-overlay'), 'click', () => this.overlay.toggle());
+        this.listen(document.getElementById('debug-replay'), 'change', async (e: any) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) this.loadReplay(await file.text());
+        });
+
+        const replayUrl = params.get('replay');
+        if (replayUrl) {
+            fetch(replayUrl).then(r => r.text()).then(text => this.loadReplay(text, params.has('loop')))
+                .catch(e => showToast(`Replay failed: ${e.message}`, 'error'));
+        }
+    }
+
+    loadReplay(json: string, loop = false) {
+        let recording: LandmarkRecording;
+        try {
+            recording = parseRecording(json);
+        } catch(e) {
+            showToast(`Replay failed: ${(e as Error).message}`, 'error');
+            return;
+        }
+        this.stopReplay();
+        this.replay = new LandmarkReplay(recording, loop);
+        this.overlay.toggle(true);
+        showToast(`Replaying ${recording.frames.length} frames`);
+    }
+
+    stopReplay() {
+        if (!this.replay) return;
+        this.replay = null;
+        // 送一帧空结果，让手势状态和光标正常收尾
+        this.handSource.process({ landmarks: [], worldLandmarks: [], handednesses: [] }, performance.now());
+        this.overlay.clear();
+    }
+
+    handleIntent(intent: InputIntent) {
+        const cursor = document.getElementById('smart-cursor');
+        this.lastActivity = this.clock.realTime;
+        // 幻灯片进行中：左右切换、暂停照常，其余会离开聚焦的操作先结束幻灯片
+        if (this.slideshow.active && (intent.type === 'select' || intent.type === 'formation' || intent.type === 'heart')) {
+            this.stopSlideshow();
+            if (intent.type === 'select') return;
+        }
+        // 手动换阵型时表演让位，已经升空的烟花照常放完
+        if (intent.type === 'select' || intent.type === 'formation' || intent.type === 'heart' || intent.type === 'spread') this.show.stop();
+        switch (intent.type) {
+            case 'pointer':
+                this.pointer.x = intent.x;
+                this.pointer.y = intent.y;
+                this.pointer.active = true;
+                this.pointer.source = intent.source;
+                // 只有手势需要自绘光标，鼠标和触摸用系统光标
+                if (cursor) {
+                    cursor.style.display = intent.source === 'hand' ? 'block' : 'none';
+                    cursor.style.left = `${intent.x}px`;
+                    cursor.style.top = `${intent.y}px`;
+                }
+                break;
+
+            case 'pointerLost':
+                if (intent.source === 'hand') this.field.gather = false;
+                if (intent.source !== this.pointer.source) break;
+                this.endDrag();
+                this.pointer.active = false;
+                this.hoveredParticle = null;
+                if (cursor) cursor.style.display = 'none';
+                break;
+
+            case 'select':
+                // 编辑时点一下只是选中，不聚焦
+                if (this.editing) {
+                    this.select(this.pickItem());
+                    break;
+                }
+                this.updateHover();
+                this.toggleFocus();
+                break;
+
+            case 'rotate':
+                if (this.mode === Mode.FOCUS || this.dragging) break;
+                if (intent.relative) {
+                    this.stopCameraPath();
+                    this.cameraRig.rotate(intent.yaw, intent.pitch);
+                } else {
+                    // 手掌的位置只让相机临时偏一点，手离开后回到原来的机位
+                    this.cameraRig.steer(intent.yaw, intent.pitch);
+                    this.steerTime = this.clock.realTime;
+                }
+                break;
+
+            case 'pan':
+                if (this.mode === Mode.FOCUS) break;
+                this.stopCameraPath();
+                this.cameraRig.pan(intent.x, intent.y);
+                break;
+
+            case 'resetView':
+                this.stopCameraPath();
+                this.cameraRig.reset();
+                break;
+
+            case 'spread': {
+                // 幻灯片进行中握拳暂停、张开手继续
+                if (this.slideshow.active) {
+                    this.slideshow.paused = !(intent.open ?? this.slideshow.paused);
+                    break;
+                }
+                // 张开手从任意阵型散开，握拳回到散开前的阵型；手动操作接管音乐炸开
+                this.burstUntil = 0;
+                const next = modeForIntent(intent, this.mode, this.spreadFrom);
+                if (next) this.setFormation(next);
+                break;
+            }
+
+            case 'heart': {
+                const next = modeForIntent(intent, this.mode, this.spreadFrom);
+                if (!next) break;
+                this.burstUntil = 0;
+                this.setFormation(next);
+                break;
+            }
+
+            case 'formation':
+                this.burstUntil = 0;
+                this.setFormation(intent.id);
+                break;
+
+            case 'navigate':
+                if (this.slideshow.active) this.advanceSlideshow(intent.step);
+                else this.stepPhoto(intent.step);
+                break;
+
+            case 'slideshow':
+                if (intent.on ?? !this.slideshow.active) this.startSlideshow(false);
+                else this.stopSlideshow();
+                break;
+
+            case 'zoom':
+                this.stopCameraPath();
+                this.cameraRig.zoom(intent.factor);
+                break;
+
+            case 'pause':
+                if (this.slideshow.active) {
+                    this.slideshow.paused = intent.on ?? !this.slideshow.paused;
+                    break;
+                }
+                this.clock.paused = intent.on ?? !this.clock.paused;
+                showToast(this.clock.paused ? 'Paused' : 'Resumed');
+                break;
+
+            case 'slowMotion': {
+                const on = intent.on ?? this.clock.scale === 1;
+                this.clock.scale = on ? SLOW_MOTION_SCALE : 1;
+                showToast(on ? `Slow motion ×${SLOW_MOTION_SCALE}` : 'Normal speed');
+                break;
+            }
+
+            case 'hud':
+                document.getElementById('hud-layer')?.classList.toggle('hud-hidden');
+                break;
+
+            case 'gust':
+                this.weather.blow(intent.x, intent.y);
+                break;
+
+            case 'grab':
+                if (intent.source === 'hand') this.field.gather = intent.on;
+                if (!this.editing) break;
+                if (intent.on) this.startDrag();
+                else this.endDrag();
+                break;
+
+            case 'edit':
+                this.setEditing(intent.on ?? !this.editing);
+                break;
+
+            case 'shake':
+                this.field.shake(intent.strength);
+                break;
+
+            case 'theme':
+                this.setTheme(intent.id);
+                break;
+        }
+    }
+
+    // 雪一直在下；TREE 模式下慢慢积在树上，换成别的阵型或关掉积雪时抖落
+    updateSnow(dt: number, time: number) {
+        this.weather.update(dt, time);
+        const settling = CONFIG.snow.settle && this.mode === Mode.TREE;
+        if (settling && !this.snowCover.anchors.length) {
+            this.snowCover.attach(this.particles.filter(p => p.state.type === 'deco' || p.state.type === 'light'), createRandom(hashSeed(CONFIG.layout.seed, 'cover')));
+        } else if (!settling) {
+            this.snowCover.shed();
+        }
+        this.snowCover.update(dt, settling, this.weather.settleRate);
+    }
+
+    // 手在画面上时，从相机穿过手的位置的射线就是力场；聚焦和编辑时不打扰粒子
+    updateField() {
+        const field = this.field;
+        field.active = this.pointer.active && this.pointer.source === 'hand' && this.mode !== Mode.FOCUS && !this.editing;
+        field.canDrop = this.mode === Mode.TREE;
+        field.floor = -CONFIG.tree.height / 2 - CONFIG.tree.trunkHeight + 1.5;
+        if (!field.active && !field.shakeImpulse) return;
+
+        this.aimPointer();
+        this.mainGroup.updateMatrixWorld();
+        field.aim(this.raycaster.ray, this.camera, this.mainGroup);
+    }
+
+    isSteering() {
+        return this.clock.realTime - this.steerTime < 0.5;
+    }
+
+    // 让射线穿过指针所在的像素
+    aimPointer() {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        this.mouse.x = ((this.pointer.x - rect.left) / rect.width) * 2 - 1;
+        this.mouse.y = -((this.pointer.y - rect.top) / rect.height) * 2 + 1;
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+    }
+
+    updateHover() {
+        this.hoveredParticle = null;
+        if (!this.pointer.active) return;
+        if (this.editing) {
+            this.hoveredParticle = this.dragging ? null : this.pickItem();
+            return;
+        }
+
+        this.aimPointer();
+        const intersects = this.raycaster.intersectObjects(this.mainGroup.children, true);
+        
+        if (intersects.length > 0) {
+            let obj = intersects[0].object;
+            while (obj && !(obj as any).particle && obj.parent && obj.parent !== this.mainGroup) {
+                obj = obj.parent;
+            }
+            const p = (obj as any).particle as Particle;
+            if (p && p.state.type === 'photo') {
+                this.hoveredParticle = p;
+            }
+        }
+    }
+
+    toggleFocus() {
+        if (this.mode === Mode.FOCUS) {
+            this.exitFocus();
+            return;
+        }
+        if (this.hoveredParticle) {
+            this.focusPhoto(this.hoveredParticle);
+            return;
+        }
+        const photoParticles = this.particles.filter(p => p.state.type === 'photo');
+        if (photoParticles.length > 0) {
+            this.focusPhoto(photoParticles[Math.floor(Math.random() * photoParticles.length)]);
+        }
+    }
+
+    focusPhoto(p: Particle) {
+        this.setEditing(false);
+        if (this.mode !== Mode.FOCUS) this.lastMode = this.mode;
+        this.photoTarget = p;
+        this.mode = Mode.FOCUS;
+        this.updateLayout();
+        this.showCaption(p);
+        this.photoTextures.focus(p.state.photoId ?? null);
+        document.getElementById('smart-cursor')?.classList.add('locked');
+    }
+
+    exitFocus() {
+        this.mode = this.lastMode;
+        this.photoTarget = null;
+        this.updateLayout();
+        this.captionOverlay.hide();
+        this.photoTextures.focus(null);
+        document.getElementById('smart-cursor')?.classList.remove('locked');
+    }
+
+    // 聚焦时切换到相邻照片；未聚焦时从第一张（或最后一张）开始
+    stepPhoto(step: number) {
+        const photos = this.particles.filter(p => p.state.type === 'photo');
+        if (photos.length === 0) return;
+        if (this.mode !== Mode.FOCUS || !this.photoTarget) {
+            this.focusPhoto(photos[step > 0 ? 0 : photos.length - 1]);
+            return;
+        }
+        const idx = photos.indexOf(this.photoTarget);
+        this.focusPhoto(photos[((idx + step) % photos.length + photos.length) % photos.length]);
+    }
+
+    // --- 相机与相机路径 ---
+
+    // 聚焦时飞到照片正前方；播放路径时沿路径走；其余时间跟随轨道机位
+    updateCamera(dt: number, realDt: number) {
+        if (!this.isSteering()) this.cameraRig.release();
+        const playback = this.cameraPlayback;
+        let shot: CameraPose | null = null;
+        let key = 'orbit';
+        if (this.mode === Mode.FOCUS && this.photoTarget) {
+            shot = this.focusPose(this.photoTarget);
+            key = `focus:${this.photoTarget.state.photoId ?? this.photoTarget.state.id}`;
+        } else if (playback) {
+            playback.time += dt;
+            shot = samplePath(playback.path, playback.time, this.shotPose);
+            key = `path:${playback.path.id}`;
+        }
+        if (key !== this.cameraShot) {
+            this.cameraShot = key;
+            this.cameraRig.fly(CONFIG.camera.flight);
+        }
+        this.cameraRig.update(realDt, shot);
+        // 播完停在最后一帧，之后的拖动从这里开始
+        if (shot && playback && playback.time >= pathDuration(playback.path)) this.stopCameraPath();
+    }
+
+    // 聚焦的照片留在原处转向树的正面；相机停在它前方 50 − focusZ 处，和原来固定相机看聚焦照片的距离相同
+    focusPose(p: Particle): CameraPose {
+        const pose = this.shotPose;
+        this.mainGroup.updateMatrixWorld();
+        this.mainGroup.localToWorld(pose.target.copy(p.state.target));
+        pose.yaw = this.mainGroup.rotation.y;
+        pose.pitch = 0;
+        pose.distance = HOME_POSE.distance - CONFIG.interaction.focusZ;
+        return pose;
+    }
+
+    playCameraPath(id: string) {
+        const path = this.cameraPaths.find(id);
+        if (path) this.startCameraPath(path);
+    }
+
+    startCameraPath(path: CameraPath) {
+        if (this.slideshow.active) this.stopSlideshow();
+        if (this.mode === Mode.FOCUS) this.exitFocus();
+        this.cameraPlayback = { path, time: 0 };
+        this.renderCameraPanel();
+    }
+
+    // 停下时把当前机位留作轨道机位，不会跳回播放前的位置
+    stopCameraPath() {
+        if (!this.cameraPlayback) return;
+        this.cameraPlayback = null;
+        this.cameraRig.hold();
+        this.cameraShot = 'orbit';
+        this.renderCameraPanel();
+    }
+
+    removeCameraPath(id: string) {
+        if (this.cameraPlayback?.path.id === id) this.stopCameraPath();
+        this.cameraPaths.remove(id);
+        this.renderCameraPanel();
+    }
+
+    addCameraKey(gap: number) {
+        const last = this.cameraDraft[this.cameraDraft.length - 1];
+        this.cameraDraft.push(keyFromPose(last ? last.time + gap : 0, this.cameraRig.current));
+        this.renderCameraPanel();
+    }
+
+    previewCameraDraft() {
+        if (this.cameraDraft.length < 2) {
+            showToast('Add at least two keys first', 'error');
+            return;
+        }
+        this.startCameraPath({ id: 'draft', label: 'DRAFT', keys: [...this.cameraDraft] });
+    }
+
+    clearCameraDraft() {
+        this.cameraDraft = [];
+        this.renderCameraPanel();
+    }
+
+    saveCameraPath(label: string) {
+        if (this.cameraDraft.length < 2) {
+            showToast('Add at least two keys first', 'error');
+            return;
+        }
+        const path = this.cameraPaths.save(label, this.cameraDraft);
+        this.cameraDraft = [];
+        this.renderCameraPanel();
+        showToast(`Saved camera path ${path.label}`);
+    }
+
+    renderCameraPanel() {
+        const last = this.cameraDraft[this.cameraDraft.length - 1];
+        this.cameraPanel?.render(this.cameraPaths.all, this.cameraPlayback?.path.id ?? '', this.cameraDraft.length, last?.time ?? 0);
+    }
+
+    // --- 倒计时与烟花表演（?countdown=newyear 换目标、?greeting= 换祝福由设置读入，?now=2026-12-24T23:59:50 模拟时间） ---
+
+    initCountdown() {
+        const params = new URLSearchParams(this.search);
+        this.countdown.schedule(CONFIG.countdown.target);
+        const now = params.get('now');
+        const simulated = now ? resolveTarget(now, Date.now()) : null;
+        if (simulated !== null) this.countdown.simulate(simulated);
+    }
+
+    // 计时器用本机时间（或模拟的时间），表演本身按模拟时钟走，暂停时一起停
+    updateCountdown(dt: number) {
+        const { target, timer, greeting } = CONFIG.countdown;
+        if (this.countdown.update(target)) this.playShow();
+        this.show.update(dt);
+
+        const remaining = this.countdown.remaining;
+        const label = COUNTDOWN_TARGETS.find(t => t.id === this.countdown.target)?.label ?? 'SHOW';
+        const pending = remaining !== null && remaining > 0;
+        const simulated = this.countdown.simulated ? ' · SIMULATED' : '';
+        this.countdownOverlay.update(timer && pending ? `${label} IN ${formatRemaining(remaining)}${simulated}` : '');
+        if (this.showGreeting) this.countdownOverlay.show(greeting, true);
+        else this.countdownOverlay.show(pending && remaining <= FINAL_SECONDS * 1000 ? String(Math.ceil(remaining / 1000)) : '');
+        this.countdownPanel?.update(`${new Date(this.countdown.now).toLocaleString()}${simulated}`);
+    }
+
+    playShow() {
+        if (this.slideshow.active) this.stopSlideshow();
+        this.burstUntil = 0;
+        this.show.start();
+    }
+
+    // 把时钟拨到零点前几秒，计时器数完就开演
+    rehearseShow() {
+        if (this.countdown.at === null) {
+            showToast('The countdown target could not be read', 'error');
+            return;
+        }
+        this.countdown.simulate(this.countdown.at - FINAL_SECONDS * 1000);
+    }
+
+    // 从上往下依次归位：目标越低的粒子在原地等得越久
+    cascadeTo(id: string) {
+        this.setFormation(id);
+        const ys = this.particles.map(p => p.state.target.y);
+        const top = Math.max(...ys);
+        const span = Math.max(top - Math.min(...ys), 1e-3);
+        this.particles.forEach(p => p.delay = (top - p.state.target.y) / span * CASCADE_SECONDS);
+    }
+
+    // 倒计时面板的改动走设置存储：刷新后还在，也会带进分享链接；不合格的值被拒时表单恢复原样
+    setCountdown(path: string, raw: string) {
+        const spec = SETTINGS.find(s => s.path === path);
+        if (spec && this.settings.set(spec, raw) === null) this.renderCountdownPanel();
+    }
+
+    renderCountdownPanel() {
+        const { target, greeting, finale } = CONFIG.countdown;
+        this.countdownPanel?.render(target, greeting, finale);
+    }
+
+    // --- 手机遥控（?remote=<配对码> 打开页面即开始配对） ---
+
+    initRemote() {
+        const param = new URLSearchParams(this.search).get('remote');
+        const code = param && normalizePairingCode(param);
+        if (code) this.startRemote(code);
+    }
+
+    async startRemote(code = createPairingCode()) {
+        const port = CONFIG.remote.relayPort;
+        const host = location.hostname || 'localhost';
+        // https 页面不能连 ws:// 的本地中继，只剩同一台机器上的遥控页
+        const relay = location.protocol === 'https:' ? null : `ws://${host}:${port}`;
+        this.remote.open(code, relay);
+        this.remoteLink = '';
+        this.updateRemotePanel();
+
+        // 大屏用 localhost 打开时，手机要换成中继报告的局域网地址
+        const local = host === 'localhost' || host === '127.0.0.1' || host === '[::1]';
+        const linkHost = local && relay ? (await fetchRelayAddresses(host, port))[0] ?? host : host;
+        if (this.remote.code !== code) return;
+        const link = new URL('remote.html', location.href);
+        link.hostname = linkHost;
+        link.search = '';
+        link.hash = '';
+        link.searchParams.set('code', code);
+        if (relay) link.searchParams.set('relay', `ws://${linkHost}:${port}`);
+        this.remoteLink = link.toString();
+        this.updateRemotePanel();
+    }
+
+    stopRemote() {
+        this.remote.close();
+        this.remoteLink = '';
+        this.updateRemotePanel();
+    }
+
+    async copyRemoteLink() {
+        if (!this.remoteLink) return;
+        try {
+            await navigator.clipboard.writeText(this.remoteLink);
+            showToast('Remote link copied');
+        } catch(e) {
+            console.warn("Copy Failed", e);
+            showToast('Could not copy the link', 'error');
+        }
+    }
+
+    updateRemotePanel() {
+        if (!this.remotePanel) return;
+        const relay = {
+            open: 'RELAY CONNECTED · PHONES CAN JOIN',
+            connecting: 'LOOKING FOR RELAY · npm run relay',
+            closed: 'THIS DEVICE ONLY'
+        }[this.remote.relayStatus];
+        this.remotePanel.show(this.remote.code, this.remoteLink, this.remote.active ? relay : 'REMOTE OFF');
+    }
+
+    remoteState(): RemoteState {
+        const focused = this.mode === Mode.FOCUS ? this.photoRecords.find(r => r.id === this.photoTarget?.state.photoId)?.name : '';
+        return {
+            type: 'state',
+            mode: this.mode,
+            formations: listFormations().filter(f => !f.hidden).map(f => ({ id: f.id, label: f.label })),
+            themes: this.themes.all.map(t => ({ id: t.id, label: t.label })),
+            theme: CONFIG.theme,
+            photos: this.photoRecords.length,
+            focused: focused ?? ''
+        };
+    }
+
+    publishRemote() {
+        if (this.remote.active) this.remote.publish(this.remoteState());
+    }
+
+    // --- 录像与截图 ---
+
+    async saveSnapshot(scale: number) {
+        try {
+            const blob = await this.capture.snapshot(scale);
+            downloadBlob(blob, `memory-tree-${new Date().toISOString().slice(0, 10)}.png`);
+        } catch(e) {
+            console.warn("Snapshot Failed", e);
+            showToast('Snapshot failed: the image was too large for this device', 'error');
+        } finally {
+            this.onResize();
+        }
+    }
+
+    // length 为 'show' 时播放预设表演（树 → 散开 → 爱心 → 照片巡礼）并录下全程
+    async recordVideo(size: string, length: string) {
+        if (this.capture.recording) return;
+        const [width, height] = size === 'screen'
+            ? [this.width, this.height]
+            : size.split('x').map(Number);
+
+        let duration = Number(length);
+        if (length === 'show') {
+            if (this.slideshow.active) this.stopSlideshow();
+            this.choreography = new Choreography({
+                formation: id => this.setFormation(id),
+                focus: index => this.focusPhoto(this.particles.filter(p => p.state.type === 'photo')[index]),
+                photoCount: () => this.particles.filter(p => p.state.type === 'photo').length
+            });
+            // 末尾多留半秒，让最后的过渡收尾
+            duration = this.choreography.duration + 0.5;
+            this.choreography.start();
+        }
+
+        const started = this.clock.realTime;
+        const timer = window.setInterval(() => this.capturePanel?.setRecording(true, duration - (this.clock.realTime - started)), 250);
+        this.capturePanel?.setRecording(true, duration);
+        try {
+            const blob = await this.capture.record({ width, height, duration, fps: 30 });
+            const ext = blob.type.includes('mp4') ? 'mp4' : 'webm';
+            downloadBlob(blob, `memory-tree-${new Date().toISOString().slice(0, 10)}.${ext}`);
+        } catch(e) {
+            console.warn("Recording Failed", e);
+            showToast(`Recording failed: ${e instanceof Error ? e.message : 'unknown error'}`, 'error');
+        } finally {
+            window.clearInterval(timer);
+            this.choreography = null;
+            this.capturePanel?.setRecording(false);
+            this.onResize();
+        }
+    }
+
+    // --- 音乐律动 ---
+
+    async startAudio(start: () => Promise<void>) {
+        try {
+            await start();
+        } catch(e) {
+            console.warn("Audio Failed", e);
+            this.audio.stop();
+            showToast(`Could not play audio: ${e instanceof Error ? e.message : 'unknown error'}`, 'error');
+        }
+    }
+
+    // 没有音乐时返回 null，动画保持按时间驱动
+    updateAudio(realDt: number): AudioFrame | null {
+        const audio = this.audio.update(realDt);
+        this.audioPanel?.update(audio ? this.audio.label : '', audio?.level ?? 0, audio?.beat ?? 0);
+        this.bloom.strength = CONFIG.render.bloomStrength + (audio ? audio.beat * 0.5 + audio.level * 0.3 : 0);
+
+        // 持续的响亮段落让粒子散开一下，然后回到原来的阵型；幻灯片、表演和聚焦时不打扰
+        const calm = this.slideshow.active || this.choreography || this.show.active || this.editing || this.mode === Mode.FOCUS;
+        if (audio?.burst && CONFIG.audio.bursts && !calm && this.mode !== Mode.SCATTER) {
+            this.setFormation(Mode.SCATTER);
+            this.burstUntil = this.clock.realTime + 2.5;
+        }
+        if (this.burstUntil && this.clock.realTime > this.burstUntil) {
+            if (this.mode === Mode.SCATTER) this.setFormation(this.spreadFrom);
+            this.burstUntil = 0;
+        }
+        return audio;
+    }
+
+    startSlideshow(auto: boolean) {
+        if (!this.particles.some(p => p.state.type === 'photo')) {
+            if (!auto) showToast('Add some memories first to start a slideshow');
+            return;
+        }
+        this.slideshow.start(auto);
+        // 已经在看某张照片时从它开始
+        this.slideshow.current = this.mode === Mode.FOCUS ? this.photoTarget : null;
+        if (!this.slideshow.current) this.advanceSlideshow(1);
+    }
+
+    stopSlideshow() {
+        this.slideshow.stop();
+        this.slideshowIndicator.hide();
+        if (this.mode === Mode.FOCUS) this.exitFocus();
+    }
+
+    advanceSlideshow(step: number) {
+        const photos = this.particles.filter(p => p.state.type === 'photo');
+        if (photos.length === 0) {
+            this.stopSlideshow();
+            return;
+        }
+        const idx = photos.indexOf(this.slideshow.current!);
+        const next = idx < 0
+            ? photos[step > 0 ? 0 : photos.length - 1]
+            : photos[((idx + step) % photos.length + photos.length) % photos.length];
+        this.slideshow.current = next;
+        this.slideshow.restart();
+        this.focusPhoto(next);
+        applyTransition(next, CONFIG.slideshow.transition);
+    }
+
+    updateSlideshow(dt: number) {
+        const { idleStart, interval, transition } = CONFIG.slideshow;
+        if (!this.slideshow.active) {
+            const idle = this.clock.realTime - this.lastActivity > idleStart;
+            if (idleStart > 0 && idle && !this.replay && !this.choreography && !this.show.active && !this.editing) this.startSlideshow(true);
+            return;
+        }
+        const step = this.slideshow.update(dt, interval, transition);
+        if (step === 'leave' && this.mode === Mode.FOCUS) this.exitFocus();
+        if (step === 'next') this.advanceSlideshow(1);
+        if (!this.slideshow.active) return;
+
+        const photos = this.particles.filter(p => p.state.type === 'photo');
+        this.slideshowIndicator.update(Math.max(photos.indexOf(this.slideshow.current!), 0), photos.length, this.slideshow.progress(interval), this.slideshow.paused);
+    }
+
+    // 标签页隐藏时停下渲染循环，切回来再继续；时钟会把中间的空白截成一帧
+    startLoop() {
+        if (!this.frame && !this.disposed) this.frame = requestAnimationFrame(this.animate);
+    }
+
+    stopLoop() {
+        cancelAnimationFrame(this.frame);
+        this.frame = 0;
+    }
+
+    // 宿主和遥控器关心的状态在每帧末尾比较一次再通知，不必在每个改动 mode 的地方各发一次
+    reportState() {
+        if (this.mode !== this.reported.mode) {
+            this.reported.mode = this.mode;
+            this.events.modeChange?.(this.mode);
+            this.publishRemote();
+        }
+        const photoId = this.mode === Mode.FOCUS ? this.photoTarget?.state.photoId ?? null : null;
+        if (photoId !== this.reported.photoId) {
+            this.reported.photoId = photoId;
+            const index = this.photoRecords.findIndex(r => r.id === photoId);
+            const record = this.photoRecords[index];
+            this.events.photoFocus?.(record ? { id: record.id, index, name: record.name, caption: record.caption } : null);
+            this.publishRemote();
+        }
+    }
+
+    animate = () => {
+        this.frame = requestAnimationFrame(this.animate);
+        this.clock.tick(performance.now());
+        const { time, dt, realDt } = this.clock;
+        // 截图录像时画布被临时放大，这段帧时间不代表平时的负载
+        if (!this.capture.busy && this.quality.update(realDt)) this.applyQuality();
+        this.statsOverlay.update(realDt, CONFIG.quality.stats, this.quality, `${this.batches.reduce((n, b) => n + b.mesh.count, 0)} PARTICLES`);
+        this.updateSlideshow(dt);
+        this.choreography?.update(dt);
+        this.updateCountdown(dt);
+        const audio = this.updateAudio(realDt);
+        const palette = this.themeFade.update(realDt);
+        if (palette) {
+            this.applyPalette(palette);
+            this.settingsPanel?.refresh();
+        }
+        this.updateHover();
+        this.updateDrag();
+        
+        if (this.ambientLight) {
+            this.ambientLight.intensity = 0.45 + Math.sin(time * 0.5) * 0.05;
+        }
+        if (this.sun) {
+            this.sun.position.x = 10 + Math.sin(time * 0.3) * 5;
+            this.sun.position.z = 10 + Math.cos(time * 0.3) * 5;
+        }
+
+        const formation = this.formation;
+        this.updateField();
+        this.particles.forEach(p => {
+            if (!p.active) return;
+            // 编辑时选中的照片或挂饰一直亮着
+            const isHovered = p === this.hoveredParticle || (this.editing && p === this.selected);
+            p.update(dt, formation, time, p === this.photoTarget, isHovered, audio, this.field);
+        });
+        this.field.endFrame();
+        this.batches.forEach(b => b.commit());
+        this.updateSnow(dt, time);
+        this.fireworks.update(dt);
+
+        if (this.star) {
+            // 有音乐时星星随节拍猛转一下；表演时变大变亮，散开时也留在树顶的位置
+            this.star.rotation.y += perFrame(0.02 + (audio ? audio.beat * 0.12 : 0), dt);
+            this.starFlare = Math.max(0, this.starFlare - dt / FLARE_SECONDS);
+            this.star.visible = formation.showStar || this.starFlare > 0;
+            this.star.scale.setScalar(1 + this.starFlare);
+            (this.star.material as THREE.MeshStandardMaterial).emissiveIntensity = 3 + this.starFlare * 9;
+        }
+        if (this.trunk) {
+            this.trunk.visible = formation.showTrunk;
+        }
+
+        if (formation.upright) {
+            // 转回最近的一圈正面，不必倒着转完之前累积的圈数
+            const home = Math.round(this.mainGroup.rotation.y / (Math.PI * 2)) * Math.PI * 2;
+            this.mainGroup.rotation.y = THREE.MathUtils.lerp(this.mainGroup.rotation.y, home, damp(0.05, realDt));
+        } else if (this.mode !== Mode.FOCUS && !this.editing) {
+            // 聚焦时树保持不动，由相机飞到照片前；编辑时也停下，方便对准
+            this.mainGroup.rotation.y += perFrame(0.005, dt);
+        }
+        this.updateCamera(dt, realDt);
+
+        this.composer.render();
+        this.reportState();
+    };
+
+    /**
+     * Tears everything down: stops the render and hand-tracking loops,
+     * removes every listener, releases the camera, audio and GPU resources
+     * and takes the canvas out of the container. The app cannot be reused.
+     */
+    dispose() {
+        if (this.disposed) return;
+        this.disposed = true;
+        this.stopLoop();
+        window.clearTimeout(this.handTimer);
+        this.cleanup.forEach(fn => fn());
+        this.cleanup = [];
+        this.pointerSource?.dispose();
+        this.keyboardSource?.dispose();
+
+        this.capture.stop();
+        this.audio.stop();
+        this.remote.close();
+        if (this.stream) closeCamera(this.stream, this.video);
+        this.stream = null;
+        this.landmarker?.close();
+        this.overlay?.dispose();
+        this.captionOverlay.hide();
+        this.slideshowIndicator.hide();
+        this.countdownOverlay.hide();
+
+        this.photoTextures.dispose();
+        this.weather.dispose();
+        this.scene.traverse((obj: THREE.Object3D) => {
+            const mesh = obj as THREE.Mesh;
+            if (obj instanceof THREE.InstancedMesh) obj.dispose();
+            mesh.geometry?.dispose();
+            const materials = Array.isArray(mesh.material) ? mesh.material : mesh.material ? [mesh.material] : [];
+            materials.forEach((m: THREE.Material) => {
+                Object.values(m).forEach((v: any) => {
+                    if (v?.isTexture) v.dispose();
+                });
+                m.dispose();
+            });
+        });
+        this.scene.environment?.dispose();
+        this.bloom.dispose();
+        this.composer.dispose();
+        this.renderer.dispose();
+        this.renderer.domElement.remove();
+        assignConfig(CONFIG, this.initialConfig);
+    }
+}
@@ -0,0 +1,296 @@
+import type { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// --- 手势识别：带滞回与保持时间的阈值门，输出类型化的手势事件 ---
+
+/**
+ * `enter` must be crossed and held for `hold` ms before a gesture starts; it
+ * only ends once the value crosses back past `exit`. Keeping exit looser than
+ * enter stops a half-open hand from flickering between states.
+ */
+export interface GestureRule {
+    enter: number;
+    exit: number;
+    hold: number;
+}
+
+export interface GestureConfig {
+    pinch: GestureRule;
+    fist: GestureRule;
+    openPalm: GestureRule;
+    thumbsUp: GestureRule;
+    heartHands: GestureRule;
+    swipe: { distance: number; window: number; cooldown: number };
+    // 张开手挥动：手掌速度（画面宽度/秒）超过 speed 时吹出一阵风
+    gust: { speed: number; window: number; cooldown: number };
+    // 左右快速来回：window 毫秒内折返 turns 次、每段行程超过 amplitude（画面宽度）算一次摇晃
+    shake: { amplitude: number; turns: number; window: number; cooldown: number };
+    zoom: { deadzone: number };
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+    // 拇指与食指指尖距离
+    pinch: { enter: 0.045, exit: 0.06, hold: 0 },
+    // 四指指尖到手腕的平均距离
+    fist: { enter: 0.18, exit: 0.22, hold: 150 },
+    openPalm: { enter: 0.45, exit: 0.4, hold: 200 },
+    // 拇指竖起的高度（相对手掌大小）
+    thumbsUp: { enter: 0.9, exit: 0.6, hold: 400 },
+    // 两手拇指、食指指尖之间的最大距离
+    heartHands: { enter: 0.06, exit: 0.1, hold: 300 },
+    swipe: { distance: 0.25, window: 350, cooldown: 700 },
+    gust: { speed: 0.8, window: 150, cooldown: 250 },
+    shake: { amplitude: 0.04, turns: 2, window: 700, cooldown: 300 },
+    zoom: { deadzone: 0.01 }
+};
+
+export type GesturePhase = 'start' | 'end';
+
+export type GestureEvent =
+    | { type: 'pinch'; phase: GesturePhase }
+    | { type: 'fist'; phase: GesturePhase }
+    | { type: 'openPalm'; phase: GesturePhase }
+    | { type: 'thumbsUp'; phase: GesturePhase }
+    | { type: 'heartHands'; phase: GesturePhase }
+    | { type: 'swipe'; direction: 'left' | 'right' }
+    // 屏幕方向的手掌速度（画面宽度/秒），向右、向下为正
+    | { type: 'gust'; vx: number; vy: number }
+    // strength 按来回的幅度算，约 0.3–2
+    | { type: 'shake'; strength: number }
+    // factor 是相对上一次 zoom 事件的缩放比例，scale 是相对手势开始时的比例
+    | { type: 'zoom'; phase: 'start' | 'move' | 'end'; scale: number; factor: number };
+
+export type GestureType = GestureEvent['type'];
+export type GestureOf<T extends GestureType> = Extract<GestureEvent, { type: T }>;
+
+class HysteresisGate {
+    rule: GestureRule;
+    below: boolean;
+    active = false;
+    since = -1;
+
+    // below 为 true 表示数值越小越“进入”（如捏合距离）
+    constructor(rule: GestureRule, below: boolean) {
+        this.rule = rule;
+        this.below = below;
+    }
+
+    update(value: number | null, now: number): GesturePhase | null {
+        if (value === null) {
+            this.since = -1;
+            if (!this.active) return null;
+            this.active = false;
+            return 'end';
+        }
+        const entering = this.below ? value < this.rule.enter : value > this.rule.enter;
+        const exiting = this.below ? value > this.rule.exit : value < this.rule.exit;
+
+        if (!this.active) {
+            if (!entering) {
+                this.since = -1;
+                return null;
+            }
+            if (this.since < 0) this.since = now;
+            if (now - this.since < this.rule.hold) return null;
+            this.active = true;
+            return 'start';
+        }
+        if (exiting) {
+            this.active = false;
+            this.since = -1;
+            return 'end';
+        }
+        return null;
+    }
+}
+
+const dist = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function pinchDistance(lm: NormalizedLandmark[]) {
+    return dist(lm[4], lm[8]);
+}
+
+export function fingerSpread(lm: NormalizedLandmark[]) {
+    return [8, 12, 16, 20].reduce((sum, i) => sum + dist(lm[i], lm[0]), 0) / 4;
+}
+
+// 拇指向上伸出、其余四指弯曲时为正值；数值是拇指高度与手掌长度之比
+export function thumbsUpScore(lm: NormalizedLandmark[]) {
+    const palmSize = dist(lm[0], lm[9]) || 1e-6;
+    const curled = [8, 12, 16, 20].every(i => dist(lm[i], lm[0]) < dist(lm[i - 2], lm[0]));
+    if (!curled) return 0;
+    return (lm[2].y - lm[4].y) / palmSize;
+}
+
+// 两手拇指相触、食指相触，并且食指在拇指上方
+export function heartHandsGap(a: NormalizedLandmark[], b: NormalizedLandmark[]) {
+    const indexAbove = a[8].y < a[4].y && b[8].y < b[4].y;
+    if (!indexAbove) return Infinity;
+    return Math.max(dist(a[4], b[4]), dist(a[8], b[8]));
+}
+
+export class GestureRecognizer {
+    config: GestureConfig;
+    listeners = new Set<(e: GestureEvent) => void>();
+    pinch!: HysteresisGate;
+    fist!: HysteresisGate;
+    openPalm!: HysteresisGate;
+    thumbsUp!: HysteresisGate;
+    heartHands!: HysteresisGate;
+    swipeTrail: { x: number; t: number }[] = [];
+    swipeCooldownUntil = 0;
+    gustTrail: { x: number; y: number; t: number }[] = [];
+    gustCooldownUntil = 0;
+    shakeTrail: { x: number; t: number }[] = [];
+    shakeCooldownUntil = 0;
+    zoomStart = 0;
+    zoomLast = 0;
+
+    constructor(config: Partial<GestureConfig> = {}) {
+        this.config = { ...DEFAULT_GESTURE_CONFIG };
+        this.configure(config);
+    }
+
+    configure(config: Partial<GestureConfig>) {
+        this.config = { ...this.config, ...config };
+        this.pinch = new HysteresisGate(this.config.pinch, true);
+        this.fist = new HysteresisGate(this.config.fist, true);
+        this.openPalm = new HysteresisGate(this.config.openPalm, false);
+        this.thumbsUp = new HysteresisGate(this.config.thumbsUp, false);
+        this.heartHands = new HysteresisGate(this.config.heartHands, true);
+    }
+
+    subscribe(listener: (e: GestureEvent) => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    on<T extends GestureType>(type: T, listener: (e: GestureOf<T>) => void) {
+        return this.subscribe(e => {
+            if (e.type === type) listener(e as GestureOf<T>);
+        });
+    }
+
+    emit(e: GestureEvent) {
+        this.listeners.forEach(l => l(e));
+    }
+
+    private gate(type: 'pinch' | 'fist' | 'openPalm' | 'thumbsUp' | 'heartHands', value: number | null, now: number) {
+        const phase = this[type].update(value, now);
+        if (phase) this.emit({ type, phase });
+    }
+
+    update(result: HandLandmarkerResult, now: number) {
+        const hands = result.landmarks ?? [];
+        const one = hands.length === 1 ? hands[0] : null;
+        const two = hands.length >= 2 ? hands : null;
+
+        // 单手手势只在画面里恰好一只手时识别，避免双手操作时误触
+        this.gate('pinch', one && pinchDistance(one), now);
+        // 竖拇指时四指也是弯的，拇指竖起来就不算握拳
+        const thumbRaised = !!one && thumbsUpScore(one) > this.config.thumbsUp.exit;
+        this.gate('fist', one && !thumbRaised ? fingerSpread(one) : null, now);
+        this.gate('openPalm', one && fingerSpread(one), now);
+        this.gate('thumbsUp', one && thumbsUpScore(one), now);
+        this.gate('heartHands', two && heartHandsGap(two[0], two[1]), now);
+
+        this.updateShake(one, now);
+        this.updateSwipe(one, now);
+        this.updateGust(one, now);
+        this.updateZoom(two && !this.heartHands.active ? dist(two[0][9], two[1][9]) : null);
+    }
+
+    // 张开手掌挥动是阵风，不再同时算作划动，一个动作只对应一个意图
+    private updateSwipe(lm: NormalizedLandmark[] | null, now: number) {
+        if (!lm || this.pinch.active || this.fist.active || this.openPalm.active) {
+            this.swipeTrail.length = 0;
+            return;
+        }
+        const { distance, window, cooldown } = this.config.swipe;
+        // 画面镜像，换成屏幕方向
+        this.swipeTrail.push({ x: 1 - lm[9].x, t: now });
+        while (this.swipeTrail.length && now - this.swipeTrail[0].t > window) this.swipeTrail.shift();
+        if (now < this.swipeCooldownUntil || this.swipeTrail.length < 2) return;
+
+        const dx = this.swipeTrail[this.swipeTrail.length - 1].x - this.swipeTrail[0].x;
+        if (Math.abs(dx) >= distance) {
+            this.emit({ type: 'swipe', direction: dx > 0 ? 'right' : 'left' });
+            this.swipeCooldownUntil = now + cooldown;
+            this.swipeTrail.length = 0;
+        }
+    }
+
+    private updateShake(lm: NormalizedLandmark[] | null, now: number) {
+        if (!lm) {
+            this.shakeTrail.length = 0;
+            return;
+        }
+        const { amplitude, turns, window, cooldown } = this.config.shake;
+        this.shakeTrail.push({ x: 1 - lm[9].x, t: now });
+        while (this.shakeTrail.length && now - this.shakeTrail[0].t > window) this.shakeTrail.shift();
+        if (now < this.shakeCooldownUntil) return;
+
+        // 沿轨迹数折返：朝一个方向走出 amplitude 以上，再朝反方向走出 amplitude 以上算一次
+        let direction = 0;
+        let extreme = this.shakeTrail[0]?.x ?? 0;
+        let count = 0;
+        let min = Infinity;
+        let max = -Infinity;
+        for (const { x } of this.shakeTrail) {
+            min = Math.min(min, x);
+            max = Math.max(max, x);
+            const d = x - extreme;
+            if (direction * d > 0) {
+                extreme = x;
+            } else if (Math.abs(d) >= amplitude) {
+                if (direction !== 0) count++;
+                direction = Math.sign(d);
+                extreme = x;
+            }
+        }
+        if (count < turns) return;
+        this.emit({ type: 'shake', strength: Math.min(2, Math.max(0.3, (max - min) / 0.15)) });
+        this.shakeCooldownUntil = now + cooldown;
+        // 摇晃的一段来回不再当作划动
+        this.swipeTrail.length = 0;
+        this.swipeCooldownUntil = now + this.config.swipe.cooldown;
+    }
+
+    private updateGust(lm: NormalizedLandmark[] | null, now: number) {
+        if (!lm || !this.openPalm.active) {
+            this.gustTrail.length = 0;
+            return;
+        }
+        const { speed, window, cooldown } = this.config.gust;
+        this.gustTrail.push({ x: 1 - lm[9].x, y: lm[9].y, t: now });
+        while (this.gustTrail.length && now - this.gustTrail[0].t > window) this.gustTrail.shift();
+        if (now < this.gustCooldownUntil || this.gustTrail.length < 2) return;
+
+        const first = this.gustTrail[0];
+        const last = this.gustTrail[this.gustTrail.length - 1];
+        const dt = (last.t - first.t) / 1000;
+        if (dt <= 0) return;
+        const vx = (last.x - first.x) / dt;
+        const vy = (last.y - first.y) / dt;
+        if (Math.hypot(vx, vy) >= speed) {
+            this.emit({ type: 'gust', vx, vy });
+            this.gustCooldownUntil = now + cooldown;
+        }
+    }
+
+    private updateZoom(span: number | null) {
+        if (span === null) {
+            if (this.zoomStart > 0) this.emit({ type: 'zoom', phase: 'end', scale: this.zoomLast / this.zoomStart, factor: 1 });
+            this.zoomStart = 0;
+            return;
+        }
+        if (this.zoomStart === 0) {
+            this.zoomStart = this.zoomLast = span;
+            this.emit({ type: 'zoom', phase: 'start', scale: 1, factor: 1 });
+            return;
+        }
+        const factor = span / this.zoomLast;
+        if (Math.abs(factor - 1) < this.config.zoom.deadzone) return;
+        this.zoomLast = span;
+        this.emit({ type: 'zoom', phase: 'move', scale: span / this.zoomStart, factor });
+    }
+}
@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { InputHub, InputIntent } from './inputHub';
+import { GestureRecognizer } from './gestureRecognizer';
+import { HandSource } from './handSource';
+import { LandmarkReplay, frameToResult, parseRecording } from './landmarkRecording';
+import { modeForIntent } from './intentModes';
+import { Mode } from '../scene/formations';
+
+// fixtures/gestures.json 由 npm run gesture-fixture 生成：捏合、握拳、张开手掌、划动、张开手挥动、再握拳、竖拇指，最后手离开画面
+const recording = parseRecording(readFileSync(new URL('./fixtures/gestures.json', import.meta.url), 'utf8'));
+
+// 和 HolidayApp.processHand 一样按回放的时间轴把帧交给 HandSource，时钟按 30 Hz 的识别频率前进
+function replay() {
+    const hub = new InputHub();
+    const hand = new HandSource(hub, new GestureRecognizer());
+    hand.area = () => ({ left: 0, top: 0, width: 1000, height: 1000 });
+    const intents: InputIntent[] = [];
+    hub.subscribe(intent => {
+        // 光标和手掌转动每帧都有，不在断言里
+        if (intent.type !== 'pointer' && intent.type !== 'rotate') intents.push(intent);
+    });
+    const player = new LandmarkReplay(recording);
+    for (let now = 0; !player.finished; now += 1000 / 30) {
+        player.due(now).forEach(f => hand.process(frameToResult(f), player.startTime + f.t));
+    }
+    return intents;
+}
+
+const describeIntent = (i: InputIntent) => {
+    switch (i.type) {
+        case 'spread': return `spread:${i.open ? 'open' : 'close'}`;
+        case 'grab': return `grab:${i.on ? 'on' : 'off'}`;
+        case 'heart': return `heart:${i.on ? 'on' : 'off'}`;
+        case 'navigate': return `navigate:${i.step}`;
+        default: return i.type;
+    }
+};
+
+describe('gesture replay', () => {
+    it('turns the recorded gestures into intents in order', () => {
+        expect(replay().map(describeIntent)).toEqual([
+            'select',
+            // 握拳：收拢并抓住手下的粒子，松开时放手
+            'spread:close', 'grab:on', 'grab:off',
+            'spread:open',
+            // 放松的手划过去翻到上一张
+            'navigate:-1',
+            // 张开手挥动只吹阵风，不会再翻照片
+            'spread:open', 'gust',
+            // 再握拳收回树上
+            'spread:close', 'grab:on', 'grab:off',
+            // 竖拇指只比心，四指虽然弯着也不算握拳，不会收拢或抓住粒子
+            'heart:on',
+            'pointerLost'
+        ]);
+    });
+
+    it('walks the formations the way the app does', () => {
+        let mode: string = Mode.TREE;
+        let spreadFrom: string = Mode.TREE;
+        const modes: string[] = [];
+        replay().forEach(intent => {
+            const next = modeForIntent(intent, mode, spreadFrom);
+            if (!next || next === mode) return;
+            if (next === Mode.SCATTER) spreadFrom = mode;
+            modes.push(mode = next);
+        });
+        expect(modes).toEqual([Mode.SCATTER, Mode.TREE, Mode.HEART]);
+    });
+});
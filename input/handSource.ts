@@ -0,0 +1,77 @@
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { InputHub } from './inputHub';
+import { GestureRecognizer } from './gestureRecognizer';
+
+// 把 MediaPipe 的手部关键点和识别出的手势翻译成输入意图
+export class HandSource {
+    hub: InputHub;
+    gestures: GestureRecognizer;
+    x = 0;
+    y = 0;
+    detected = false;
+    // 手势光标映射到的屏幕区域，默认整个窗口；嵌入页面时是画布所在的矩形
+    area: () => { left: number; top: number; width: number; height: number } = () => ({ left: 0, top: 0, width: window.innerWidth, height: window.innerHeight });
+
+    constructor(hub: InputHub, gestures: GestureRecognizer) {
+        this.hub = hub;
+        this.gestures = gestures;
+
+        const source = 'hand';
+        gestures.on('pinch', e => {
+            if (e.phase === 'start') hub.emit({ type: 'select', source });
+        });
+        gestures.on('fist', e => {
+            if (e.phase === 'start') hub.emit({ type: 'spread', source, open: false });
+            // 握着拳时把手下的粒子聚过来
+            hub.emit({ type: 'grab', source, on: e.phase === 'start' });
+        });
+        gestures.on('openPalm', e => {
+            if (e.phase === 'start') hub.emit({ type: 'spread', source, open: true });
+        });
+        gestures.on('thumbsUp', e => {
+            if (e.phase === 'start') hub.emit({ type: 'heart', source, on: true });
+        });
+        gestures.on('heartHands', e => {
+            if (e.phase === 'start') hub.emit({ type: 'heart', source, on: true });
+        });
+        // 向左划看下一张，向右划看上一张
+        gestures.on('swipe', e => hub.emit({ type: 'navigate', source, step: e.direction === 'left' ? 1 : -1 }));
+        // 张开手挥动吹出阵风
+        gestures.on('gust', e => hub.emit({ type: 'gust', source, x: e.vx, y: e.vy }));
+        // 左右快速晃手摇动整棵树
+        gestures.on('shake', e => hub.emit({ type: 'shake', source, strength: e.strength }));
+        gestures.on('zoom', e => {
+            if (e.phase === 'move') hub.emit({ type: 'zoom', source, factor: e.factor });
+        });
+    }
+
+    process(result: HandLandmarkerResult, now: number) {
+        this.gestures.update(result, now);
+
+        if (!result.landmarks || result.landmarks.length === 0) {
+            if (this.detected) {
+                this.detected = false;
+                this.hub.emit({ type: 'pointerLost', source: 'hand' });
+            }
+            return;
+        }
+        this.detected = true;
+
+        const lm = result.landmarks[0];
+        const indexTip = lm[8];
+
+        // 画面是镜像的，x 需要翻转
+        const { left, top, width, height } = this.area();
+        const screenX = left + (1 - indexTip.x) * width;
+        const screenY = top + indexTip.y * height;
+        this.x += (screenX - this.x) * 0.25;
+        this.y += (screenY - this.y) * 0.25;
+        this.hub.emit({ type: 'pointer', source: 'hand', x: this.x, y: this.y });
+
+        // 双手时交给缩放/比心手势，不再跟随手掌转动
+        if (result.landmarks.length === 1) {
+            const center = lm[9];
+            this.hub.emit({ type: 'rotate', source: 'hand', yaw: (center.x - 0.5) * 0.8, pitch: (center.y - 0.5) * 0.5, relative: false });
+        }
+    }
+}
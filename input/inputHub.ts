@@ -0,0 +1,52 @@
+// --- 统一输入层：各种输入源只产生“意图”，HolidayApp 只响应意图 ---
+
+export type InputSourceKind = 'hand' | 'mouse' | 'touch' | 'keyboard' | 'remote';
+
+export type InputIntent =
+    // 屏幕像素坐标，用于光标与悬停检测
+    | { type: 'pointer'; source: InputSourceKind; x: number; y: number }
+    | { type: 'pointerLost'; source: InputSourceKind }
+    // 聚焦/退出聚焦（捏合、点击、轻点、回车）
+    | { type: 'select'; source: InputSourceKind }
+    // relative 为 true 时是增量，否则是绝对目标角度（弧度）
+    | { type: 'rotate'; source: InputSourceKind; yaw: number; pitch: number; relative: boolean }
+    // open / on 省略时表示切换
+    | { type: 'spread'; source: InputSourceKind; open?: boolean }
+    | { type: 'heart'; source: InputSourceKind; on?: boolean }
+    | { type: 'formation'; source: InputSourceKind; id: string }
+    | { type: 'pause'; source: InputSourceKind; on?: boolean }
+    | { type: 'slowMotion'; source: InputSourceKind; on?: boolean }
+    | { type: 'slideshow'; source: InputSourceKind; on?: boolean }
+    // 上一张/下一张照片
+    | { type: 'navigate'; source: InputSourceKind; step: number }
+    // 乘到当前缩放上的比例
+    | { type: 'zoom'; source: InputSourceKind; factor: number }
+    // 平移画面，x、y 是拖动距离占屏幕宽高的比例（向右、向下为正）
+    | { type: 'pan'; source: InputSourceKind; x: number; y: number }
+    // 相机回到默认机位
+    | { type: 'resetView'; source: InputSourceKind }
+    | { type: 'hud'; source: InputSourceKind }
+    | { type: 'theme'; source: InputSourceKind; id: string }
+    // 握拳（或按下鼠标、手指）：聚拢手下的粒子，编辑模式里抓起照片或挂饰；松开时 on 为 false
+    | { type: 'grab'; source: InputSourceKind; on: boolean }
+    // 进入/退出摆放编辑，省略 on 时切换
+    | { type: 'edit'; source: InputSourceKind; on?: boolean }
+    // 摇晃树，strength 约 0.3–2
+    | { type: 'shake'; source: InputSourceKind; strength: number }
+    // 吹雪的阵风，x、y 是屏幕方向的速度（屏幕宽度/秒）
+    | { type: 'gust'; source: InputSourceKind; x: number; y: number };
+
+export type IntentListener = (intent: InputIntent) => void;
+
+export class InputHub {
+    private listeners = new Set<IntentListener>();
+
+    subscribe(listener: IntentListener) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    emit(intent: InputIntent) {
+        this.listeners.forEach(l => l(intent));
+    }
+}
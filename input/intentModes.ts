@@ -0,0 +1,26 @@
+import type { InputIntent } from './inputHub';
+import { Mode } from '../scene/formations';
+
+/**
+ * The formation an intent switches to, or null when it leaves the mode alone:
+ * opening the hand scatters from any shape, closing it returns to the shape
+ * it scattered from (`spreadFrom`), and heart toggles between HEART and TREE.
+ */
+export function modeForIntent(intent: InputIntent, mode: string, spreadFrom: string): string | null {
+    switch (intent.type) {
+        case 'spread': {
+            const open = intent.open ?? mode !== Mode.SCATTER;
+            if (open && mode !== Mode.SCATTER && mode !== Mode.FOCUS) return Mode.SCATTER;
+            return !open && mode === Mode.SCATTER ? spreadFrom : null;
+        }
+        case 'heart': {
+            const on = intent.on ?? mode !== Mode.HEART;
+            if (on === (mode === Mode.HEART)) return null;
+            return on ? Mode.HEART : Mode.TREE;
+        }
+        case 'formation':
+            return intent.id;
+        default:
+            return null;
+    }
+}
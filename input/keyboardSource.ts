@@ -0,0 +1,73 @@
+import { InputHub, InputIntent } from './inputHub';
+
+const ROTATE_STEP = 0.15;
+const PAN_STEP = 0.05;
+
+// 键盘快捷键；只听 scope 里的按键（嵌进别的页面时是树的容器），在输入框里打字时不响应
+export class KeyboardSource {
+    hub: InputHub;
+    scope: HTMLElement;
+    // 按键 → 阵型 id，由阵型注册表生成
+    formationKeys: Record<string, string>;
+
+    constructor(hub: InputHub, scope: HTMLElement, formationKeys: Record<string, string> = {}) {
+        this.hub = hub;
+        this.scope = scope;
+        this.formationKeys = formationKeys;
+        scope.addEventListener('keydown', this.onKey);
+    }
+
+    onKey = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+        // Ctrl/⌘/Alt 组合键留给浏览器和宿主页面
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+        // 按钮获得焦点时回车和空格交给按钮自己处理
+        if ((e.key === 'Enter' || e.key === ' ') && target?.tagName === 'BUTTON') return;
+
+        const intent = this.intentFor(e);
+        if (!intent) return;
+        // 只拦下用上了的按键，其余的照常滚动页面、激活链接
+        e.preventDefault();
+        this.hub.emit(intent);
+    };
+
+    intentFor(e: KeyboardEvent): InputIntent | null {
+        const source = 'keyboard';
+        switch (e.key.toLowerCase()) {
+            case 'h': return { type: 'hud', source };
+            case 'l': return { type: 'heart', source };
+            case 's': return { type: 'spread', source };
+            case 'p': return { type: 'pause', source };
+            case 'm': return { type: 'slowMotion', source };
+            case 'v': return { type: 'slideshow', source };
+            case 'g': return { type: 'gust', source, x: 1, y: 0 };
+            case 'c': return { type: 'resetView', source };
+            case 'k': return { type: 'shake', source, strength: 1 };
+            case 'e': return { type: 'edit', source };
+            case 'enter':
+            case ' ':
+                return { type: 'select', source };
+            case ',': return { type: 'navigate', source, step: -1 };
+            case '.': return { type: 'navigate', source, step: 1 };
+            case '-': return { type: 'zoom', source, factor: 1 / 1.1 };
+            case '=': return { type: 'zoom', source, factor: 1.1 };
+            case 'arrowleft':
+            case 'arrowright':
+            case 'arrowup':
+            case 'arrowdown': {
+                // 按住 Shift 时方向键平移相机
+                const x = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+                const y = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0;
+                if (e.shiftKey) return { type: 'pan', source, x: x * PAN_STEP, y: y * PAN_STEP };
+                return { type: 'rotate', source, yaw: x * ROTATE_STEP, pitch: y * ROTATE_STEP, relative: true };
+            }
+            default:
+                return this.formationKeys[e.key] ? { type: 'formation', source, id: this.formationKeys[e.key] } : null;
+        }
+    }
+
+    dispose() {
+        this.scope.removeEventListener('keydown', this.onKey);
+    }
+}
@@ -0,0 +1,122 @@
+import type { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// --- 手部关键点录制与回放：离线复现手势，不需要摄像头 ---
+
+export const RECORDING_FORMAT = 'meow-hand-landmarks';
+export const RECORDING_VERSION = 1;
+
+export interface LandmarkFrame {
+    // 距录制开始的毫秒数
+    t: number;
+    hands: NormalizedLandmark[][];
+    handedness: string[];
+}
+
+export interface LandmarkRecording {
+    format: string;
+    version: number;
+    createdAt: string;
+    frames: LandmarkFrame[];
+}
+
+const round = (v: number) => Math.round(v * 1e4) / 1e4;
+
+export function frameToResult(frame: LandmarkFrame): HandLandmarkerResult {
+    return {
+        landmarks: frame.hands,
+        worldLandmarks: [],
+        handednesses: frame.handedness.map((categoryName, index) => [{ score: 1, index, categoryName, displayName: categoryName }])
+    };
+}
+
+export class LandmarkRecorder {
+    frames: LandmarkFrame[] = [];
+    startTime = -1;
+
+    get recording() {
+        return this.startTime >= 0;
+    }
+
+    start(now: number) {
+        this.frames = [];
+        this.startTime = now;
+    }
+
+    push(result: HandLandmarkerResult, now: number) {
+        if (!this.recording) return;
+        this.frames.push({
+            t: Math.round(now - this.startTime),
+            hands: (result.landmarks ?? []).map(hand => hand.map(p => ({ x: round(p.x), y: round(p.y), z: round(p.z) }))),
+            handedness: (result.handednesses ?? []).map(h => h[0]?.categoryName ?? '')
+        });
+    }
+
+    stop(): LandmarkRecording {
+        this.startTime = -1;
+        return { format: RECORDING_FORMAT, version: RECORDING_VERSION, createdAt: new Date().toISOString(), frames: this.frames };
+    }
+}
+
+export function parseRecording(json: string): LandmarkRecording {
+    let raw: any;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error('Recording is not valid JSON');
+    }
+    if (!raw || raw.format !== RECORDING_FORMAT) throw new Error('This is not a hand landmark recording');
+    if (typeof raw.version !== 'number' || raw.version > RECORDING_VERSION) throw new Error(`Unsupported recording version ${raw.version}`);
+    if (!Array.isArray(raw.frames)) throw new Error('Recording has no frames');
+    let last = -Infinity;
+    raw.frames.forEach((f: any, i: number) => {
+        if (typeof f?.t !== 'number' || f.t < last) throw new Error(`frames[${i}] has a missing or out-of-order timestamp`);
+        if (!Array.isArray(f.hands) || f.hands.some((h: any) => !Array.isArray(h) || h.length !== 21)) {
+            throw new Error(`frames[${i}] must hold hands of 21 landmarks`);
+        }
+        if (!Array.isArray(f.handedness)) f.handedness = [];
+        last = f.t;
+    });
+    return raw as LandmarkRecording;
+}
+
+/**
+ * Plays a recording back on its own clock. `due` hands out every frame whose
+ * timestamp has passed, in order, so the gesture state machine sees exactly
+ * the recorded sequence whatever the render frame rate is.
+ */
+export class LandmarkReplay {
+    recording: LandmarkRecording;
+    loop: boolean;
+    startTime = -1;
+    cursor = 0;
+
+    constructor(recording: LandmarkRecording, loop = false) {
+        this.recording = recording;
+        this.loop = loop;
+    }
+
+    get finished() {
+        return !this.loop && this.cursor >= this.recording.frames.length;
+    }
+
+    get duration() {
+        const frames = this.recording.frames;
+        return frames.length ? frames[frames.length - 1].t : 0;
+    }
+
+    due(now: number): LandmarkFrame[] {
+        const frames = this.recording.frames;
+        if (frames.length === 0) return [];
+        if (this.startTime < 0) this.startTime = now;
+
+        let elapsed = now - this.startTime;
+        if (this.loop && this.cursor >= frames.length) {
+            this.startTime += this.duration;
+            this.cursor = 0;
+            elapsed = now - this.startTime;
+        }
+        const out: LandmarkFrame[] = [];
+        while (this.cursor < frames.length && frames[this.cursor].t <= elapsed) out.push(frames[this.cursor++]);
+        return out;
+    }
+}
@@ -0,0 +1,186 @@
+import { InputHub, InputSourceKind } from './inputHub';
+
+const TAP_DISTANCE = 8;
+const TAP_TIME = 300;
+const SPREAD_OUT = 1.4;
+const SPREAD_IN = 0.7;
+// 双指快速张开/捏拢（这段时间内完成）才算散开/聚拢，慢慢捏是缩放
+const FLICK_TIME = 350;
+// 滚轮每个像素的缩放量
+const WHEEL_ZOOM = 0.0015;
+
+interface TrackedPointer {
+    x: number;
+    y: number;
+    startX: number;
+    startY: number;
+    startTime: number;
+    moved: boolean;
+    // 右键或按住 Shift 拖动时平移
+    pan: boolean;
+}
+
+/**
+ * Mouse and touch through Pointer Events: hover and click for the mouse,
+ * drag to orbit for both, right-drag or shift-drag and the wheel to pan and
+ * zoom with a mouse, tap to focus and two fingers to pan and pinch-zoom on
+ * touch. A quick two-finger flick still spreads or gathers the particles.
+ * Pressing with one button or finger also emits a grab, which the placement
+ * editor uses to pick up photos and ornaments.
+ */
+export class PointerSource {
+    hub: InputHub;
+    el: HTMLElement;
+    pointers = new Map<number, TrackedPointer>();
+    pinch = { start: 0, last: 0, time: 0, x: 0, y: 0 };
+    // 这次触摸用过双指，松手时不再当作轻点
+    pinched = false;
+    // 单指或左键按下期间为 true，松开或加上第二根手指时发出 grab 结束
+    grabbing = false;
+
+    constructor(hub: InputHub, el: HTMLElement) {
+        this.hub = hub;
+        this.el = el;
+        el.style.touchAction = 'none';
+        el.addEventListener('pointerdown', this.onDown);
+        el.addEventListener('pointermove', this.onMove);
+        el.addEventListener('pointerup', this.onUp);
+        el.addEventListener('pointercancel', this.onCancel);
+        el.addEventListener('pointerleave', this.onLeave);
+        el.addEventListener('wheel', this.onWheel, { passive: false });
+        el.addEventListener('contextmenu', this.onContextMenu);
+    }
+
+    kind(e: PointerEvent): InputSourceKind {
+        return e.pointerType === 'mouse' ? 'mouse' : 'touch';
+    }
+
+    // 两个触点的距离与中点
+    pinchSpan() {
+        const [a, b] = Array.from(this.pointers.values());
+        return { distance: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    }
+
+    onDown = (e: PointerEvent) => {
+        const source = this.kind(e);
+        const pan = e.button === 2 || e.shiftKey;
+        this.el.setPointerCapture(e.pointerId);
+        this.pointers.set(e.pointerId, {
+            x: e.clientX, y: e.clientY, startX: e.clientX, startY: e.clientY, startTime: performance.now(), moved: false, pan
+        });
+        if (this.pointers.size === 1 && !pan) {
+            this.hub.emit({ type: 'pointer', source, x: e.clientX, y: e.clientY });
+            this.hub.emit({ type: 'grab', source, on: true });
+            this.grabbing = true;
+        }
+        if (this.pointers.size === 2) {
+            this.release(source);
+            const span = this.pinchSpan();
+            this.pinch = { start: span.distance, last: span.distance, time: performance.now(), x: span.x, y: span.y };
+            this.pinched = true;
+        }
+    };
+
+    onMove = (e: PointerEvent) => {
+        const source = this.kind(e);
+        const p = this.pointers.get(e.pointerId);
+        if (!p) {
+            // 鼠标未按下时只是悬停
+            if (source === 'mouse') this.hub.emit({ type: 'pointer', source, x: e.clientX, y: e.clientY });
+            return;
+        }
+
+        const dx = e.clientX - p.x;
+        const dy = e.clientY - p.y;
+        p.x = e.clientX;
+        p.y = e.clientY;
+        if (Math.hypot(p.x - p.startX, p.y - p.startY) > TAP_DISTANCE) p.moved = true;
+
+        if (this.pointers.size >= 2) {
+            const span = this.pinchSpan();
+            if (this.pinch.last > 0 && span.distance > 0) {
+                this.hub.emit({ type: 'zoom', source, factor: span.distance / this.pinch.last });
+            }
+            this.hub.emit({ type: 'pan', source, x: (span.x - this.pinch.x) / window.innerWidth, y: (span.y - this.pinch.y) / window.innerHeight });
+            this.pinch.last = span.distance;
+            this.pinch.x = span.x;
+            this.pinch.y = span.y;
+            return;
+        }
+
+        // 按住的手指也要报位置，编辑时拖着照片走
+        if (source === 'mouse' || this.grabbing) this.hub.emit({ type: 'pointer', source, x: p.x, y: p.y });
+        if (!p.moved) return;
+        if (p.pan) {
+            this.hub.emit({ type: 'pan', source, x: dx / window.innerWidth, y: dy / window.innerHeight });
+        } else {
+            this.hub.emit({
+                type: 'rotate', source, relative: true,
+                yaw: (dx / window.innerWidth) * Math.PI,
+                pitch: (dy / window.innerHeight) * Math.PI * 0.5
+            });
+        }
+    };
+
+    onUp = (e: PointerEvent) => {
+        const p = this.pointers.get(e.pointerId);
+        const source = this.kind(e);
+        if (this.pointers.size === 2) this.endPinch(source);
+        this.pointers.delete(e.pointerId);
+        if (this.pointers.size === 0) this.release(source);
+        const wasPinch = this.pinched;
+        if (this.pointers.size === 0) this.pinched = false;
+        if (!p || wasPinch) return;
+
+        const isTap = !p.moved && !p.pan && (source === 'mouse' || performance.now() - p.startTime < TAP_TIME);
+        if (isTap) {
+            this.hub.emit({ type: 'pointer', source, x: e.clientX, y: e.clientY });
+            this.hub.emit({ type: 'select', source });
+        }
+        if (source === 'touch') this.hub.emit({ type: 'pointerLost', source });
+    };
+
+    // 双指很快地张开或捏拢时，除了缩放，再散开或聚拢一次
+    endPinch(source: InputSourceKind) {
+        const ratio = this.pinch.start > 0 ? this.pinch.last / this.pinch.start : 1;
+        const quick = performance.now() - this.pinch.time < FLICK_TIME;
+        if (quick && (ratio > SPREAD_OUT || ratio < SPREAD_IN)) this.hub.emit({ type: 'spread', source, open: ratio > SPREAD_OUT });
+        this.pinch.start = this.pinch.last = 0;
+    }
+
+    release(source: InputSourceKind) {
+        if (!this.grabbing) return;
+        this.grabbing = false;
+        this.hub.emit({ type: 'grab', source, on: false });
+    }
+
+    onCancel = (e: PointerEvent) => {
+        this.pointers.delete(e.pointerId);
+        if (this.pointers.size === 0) this.release(this.kind(e));
+        if (this.pointers.size < 2) this.pinch.start = this.pinch.last = 0;
+        if (this.pointers.size === 0) this.pinched = false;
+    };
+
+    onLeave = (e: PointerEvent) => {
+        if (this.kind(e) === 'mouse' && !this.pointers.has(e.pointerId)) this.hub.emit({ type: 'pointerLost', source: 'mouse' });
+    };
+
+    onWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        // deltaMode 1 按行滚动，大约 40 像素一行
+        const pixels = e.deltaY * (e.deltaMode === 1 ? 40 : 1);
+        this.hub.emit({ type: 'zoom', source: 'mouse', factor: Math.exp(-pixels * WHEEL_ZOOM) });
+    };
+
+    onContextMenu = (e: Event) => e.preventDefault();
+
+    dispose() {
+        this.el.removeEventListener('pointerdown', this.onDown);
+        this.el.removeEventListener('pointermove', this.onMove);
+        this.el.removeEventListener('pointerup', this.onUp);
+        this.el.removeEventListener('pointercancel', this.onCancel);
+        this.el.removeEventListener('pointerleave', this.onLeave);
+        this.el.removeEventListener('wheel', this.onWheel);
+        this.el.removeEventListener('contextmenu', this.onContextMenu);
+    }
+}
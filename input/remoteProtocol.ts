@@ -0,0 +1,116 @@
+// --- 遥控协议：手机（遥控器）与大屏（显示端）之间来回传的 JSON 消息 ---
+
+export const REMOTE_VERSION = 1;
+
+// 照片按 data URL 整张发送，遥控器会先缩小；超过这个长度的直接丢弃
+export const MAX_PHOTO_LENGTH = 6 * 1024 * 1024;
+
+// 遥控器 → 显示端
+export type RemoteCommand =
+    | { type: 'hello' }
+    | { type: 'mode'; id: string }
+    // 上一张/下一张照片
+    | { type: 'navigate'; step: number }
+    // 聚焦/退出聚焦，与捏合、点击相同
+    | { type: 'focus' }
+    // 弧度增量
+    | { type: 'rotate'; yaw: number; pitch: number }
+    | { type: 'theme'; id: string }
+    | { type: 'photo'; name: string; data: string };
+
+export interface RemoteOption {
+    id: string;
+    label: string;
+}
+
+// 显示端 → 遥控器：遥控器据此画出阵型和主题按钮
+export interface RemoteState {
+    type: 'state';
+    mode: string;
+    formations: RemoteOption[];
+    themes: RemoteOption[];
+    theme: string;
+    photos: number;
+    // 正在聚焦的照片名，没有时为空
+    focused: string;
+}
+
+export type RemoteMessage = RemoteCommand | RemoteState;
+
+export interface RemoteEnvelope {
+    v: number;
+    // 发送方随机生成的 id，万一收到自己发出的消息时据此忽略
+    from: string;
+    msg: RemoteMessage;
+}
+
+// 配对码：去掉容易混淆的 0/O、1/I
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const PAIRING_CODE = /^[A-HJ-NP-Z2-9]{6}$/;
+// 只收 base64 编码的图片 data URL
+const PHOTO_DATA = /^data:image\/[\w.+-]+;base64,/;
+
+export function createPairingCode(random: () => number = Math.random) {
+    return Array.from({ length: 6 }, () => CODE_CHARS[Math.floor(random() * CODE_CHARS.length)]).join('');
+}
+
+export function normalizePairingCode(raw: string) {
+    const code = raw.trim().toUpperCase();
+    return PAIRING_CODE.test(code) ? code : null;
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOptions = (v: unknown): v is RemoteOption[] => Array.isArray(v) && v.every(o => isString(o?.id) && isString(o?.label));
+
+/**
+ * Checks one message from the other side. Returns null for anything that is
+ * not a well-formed message of this protocol version, so a stray tab or an
+ * old controller can never push garbage into the intent stream.
+ */
+export function parseRemoteEnvelope(raw: unknown): RemoteEnvelope | null {
+    let data: any = raw;
+    if (isString(raw)) {
+        try {
+            data = JSON.parse(raw);
+        } catch(e) {
+            return null;
+        }
+    }
+    if (data?.v !== REMOTE_VERSION || !isString(data.from)) return null;
+    const msg = data.msg;
+    switch (msg?.type) {
+        case 'hello':
+        case 'focus':
+            return { v: REMOTE_VERSION, from: data.from, msg: { type: msg.type } };
+        case 'mode':
+        case 'theme':
+            return isString(msg.id) ? { v: REMOTE_VERSION, from: data.from, msg: { type: msg.type, id: msg.id } } : null;
+        case 'navigate':
+            return isNumber(msg.step) ? { v: REMOTE_VERSION, from: data.from, msg: { type: 'navigate', step: Math.sign(msg.step) } } : null;
+        case 'rotate':
+            if (!isNumber(msg.yaw) || !isNumber(msg.pitch)) return null;
+            return { v: REMOTE_VERSION, from: data.from, msg: { type: 'rotate', yaw: clampStep(msg.yaw), pitch: clampStep(msg.pitch) } };
+        case 'photo':
+            if (!isString(msg.name) || !isString(msg.data) || msg.data.length > MAX_PHOTO_LENGTH || !PHOTO_DATA.test(msg.data)) return null;
+            return { v: REMOTE_VERSION, from: data.from, msg: { type: 'photo', name: msg.name.slice(0, 120), data: msg.data } };
+        case 'state':
+            if (!isString(msg.mode) || !isOptions(msg.formations) || !isOptions(msg.themes) || !isString(msg.theme) || !isNumber(msg.photos)) return null;
+            return {
+                v: REMOTE_VERSION, from: data.from,
+                msg: { type: 'state', mode: msg.mode, formations: msg.formations, themes: msg.themes, theme: msg.theme, photos: msg.photos, focused: isString(msg.focused) ? msg.focused : '' }
+            };
+    }
+    return null;
+}
+
+// 单条旋转消息最多转四分之一圈，防止一条消息把树甩飞
+const clampStep = (v: number) => Math.max(-Math.PI / 4, Math.min(Math.PI / 4, v));
+
+// data URL → File，交给和“ADD MEMORIES”相同的导入流程；base64 部分损坏时 atob 会抛错
+export function dataUrlToFile(data: string, name: string): File {
+    const [head, body] = data.split(',', 2);
+    const mime = /^data:([^;,]+)/.exec(head)?.[1] ?? 'image/jpeg';
+    const bytes = Uint8Array.from(atob(body ?? ''), c => c.charCodeAt(0));
+    return new File([bytes], name, { type: mime });
+}
@@ -0,0 +1,84 @@
+import { InputHub } from './inputHub';
+import { RemoteMessage, RemoteState, dataUrlToFile } from './remoteProtocol';
+import { BroadcastTransport, RelayTransport, RemoteTransport, TransportStatus, createPeerId } from '../services/remoteTransport';
+
+export interface RemoteHandlers {
+    // 手机上传的照片，走与“ADD MEMORIES”相同的导入流程
+    photo(file: File): void;
+    // 手机发来的照片解不开
+    rejected(name: string): void;
+    // 遥控器上线时要一份当前状态
+    state(): RemoteState;
+    // 中继连上或断开
+    status(status: TransportStatus): void;
+}
+
+// 显示端：把手机发来的遥控命令翻译成输入意图，和手势、键盘走同一条路
+export class RemoteSource {
+    hub: InputHub;
+    handlers: RemoteHandlers;
+    id = createPeerId();
+    code = '';
+    transports: RemoteTransport[] = [];
+    // 最近一次收到命令的时间（performance.now），面板据此显示遥控器是否在线
+    lastCommand = 0;
+
+    constructor(hub: InputHub, handlers: RemoteHandlers) {
+        this.hub = hub;
+        this.handlers = handlers;
+    }
+
+    get active() {
+        return this.transports.length > 0;
+    }
+
+    get relayStatus(): TransportStatus {
+        return this.transports.find(t => t.kind === 'relay')?.status ?? 'closed';
+    }
+
+    // relay 为空时只接受同一台机器上的遥控页
+    open(code: string, relay: string | null) {
+        this.close();
+        this.code = code;
+        if (typeof BroadcastChannel !== 'undefined') this.transports.push(new BroadcastTransport(code, this.id, this.receive));
+        if (relay) this.transports.push(new RelayTransport(relay, code, this.id, this.receive, s => this.handlers.status(s)));
+        this.publish(this.handlers.state());
+    }
+
+    close() {
+        this.transports.forEach(t => t.close());
+        this.transports = [];
+        this.code = '';
+    }
+
+    publish(state: RemoteState) {
+        this.transports.forEach(t => t.send(state));
+    }
+
+    private receive = (msg: RemoteMessage) => {
+        const source = 'remote';
+        if (msg.type !== 'state') this.lastCommand = performance.now();
+        switch (msg.type) {
+            case 'hello': this.publish(this.handlers.state()); break;
+            case 'mode': this.hub.emit({ type: 'formation', source, id: msg.id }); break;
+            case 'navigate': this.hub.emit({ type: 'navigate', source, step: msg.step }); break;
+            case 'focus': this.hub.emit({ type: 'select', source }); break;
+            case 'rotate': this.hub.emit({ type: 'rotate', source, yaw: msg.yaw, pitch: msg.pitch, relative: true }); break;
+            case 'theme': this.hub.emit({ type: 'theme', source, id: msg.id }); break;
+            case 'photo': this.receivePhoto(msg.data, msg.name); break;
+        }
+    };
+
+    // 在传输层的 onmessage 里调用，坏掉的照片只报告，不往外抛
+    private receivePhoto(data: string, name: string) {
+        let file: File;
+        try {
+            file = dataUrlToFile(data, name);
+        } catch(e) {
+            console.warn("Remote Photo Unreadable", e);
+            this.handlers.rejected(name);
+            return;
+        }
+        this.handlers.photo(file);
+    }
+}
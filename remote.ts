@@ -0,0 +1,185 @@
+import { RemoteCommand, RemoteMessage, RemoteOption, RemoteState, normalizePairingCode } from './input/remoteProtocol';
+import { BroadcastTransport, RelayTransport, RemoteTransport, TransportStatus, createPeerId } from './services/remoteTransport';
+
+// --- 手机遥控页：配对后发送遥控命令，按显示端回传的状态画出阵型与主题按钮 ---
+
+// 发送前把照片缩到这个边长以内，再压成 JPEG
+const PHOTO_MAX_SIZE = 1600;
+// 拖动旋转：每像素转多少弧度，以及最快多久发一次
+const ROTATE_PER_PIXEL = 0.006;
+const ROTATE_INTERVAL = 50;
+// 连上后还没收到状态时，每隔一会儿再打一次招呼（大屏可能后打开）
+const HELLO_INTERVAL = 3000;
+
+async function shrinkPhoto(file: File): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+class RemoteController {
+    id = createPeerId();
+    transport: RemoteTransport | null = null;
+    state: RemoteState | null = null;
+    helloTimer = 0;
+    relay: string | null;
+    status = document.getElementById('status')!;
+    pending = { yaw: 0, pitch: 0 };
+    rotateTimer = 0;
+
+    constructor() {
+        const params = new URLSearchParams(location.search);
+        this.relay = params.get('relay');
+        const form = document.getElementById('pair') as HTMLFormElement;
+        const input = form.elements.namedItem('code') as HTMLInputElement;
+        form.addEventListener('submit', e => {
+            e.preventDefault();
+            const code = normalizePairingCode(input.value);
+            if (code) this.pair(code);
+            else this.setStatus('closed', 'CHECK THE CODE');
+        });
+        const code = normalizePairingCode(params.get('code') ?? '');
+        if (code) {
+            input.value = code;
+            this.pair(code);
+        }
+        this.initControls();
+    }
+
+    // 有 relay 参数（扫码或点链接打开）时经中继，否则只找同一台机器上的大屏
+    pair(code: string) {
+        this.transport?.close();
+        this.state = null;
+        const receive = (msg: RemoteMessage) => this.receive(msg);
+        if (this.relay) {
+            this.transport = new RelayTransport(this.relay, code, this.id, receive, s => this.onStatus(s));
+        } else if (typeof BroadcastChannel === 'undefined') {
+            this.transport = null;
+            this.setStatus('closed', 'OPEN THE LINK SHOWN ON THE TREE');
+            return;
+        } else {
+            this.transport = new BroadcastTransport(code, this.id, receive);
+            this.onStatus('open');
+        }
+        this.setStatus('closed', `PAIRING ${code}`);
+        window.clearInterval(this.helloTimer);
+        this.helloTimer = window.setInterval(() => {
+            if (!this.state) this.send({ type: 'hello' });
+        }, HELLO_INTERVAL);
+    }
+
+    onStatus(status: TransportStatus) {
+        if (status === 'open') {
+            this.send({ type: 'hello' });
+        } else {
+            // 断线后重新要状态，期间按钮不可用
+            this.state = null;
+            this.setStatus('closed', 'RECONNECTING');
+            this.render();
+        }
+    }
+
+    send(command: RemoteCommand) {
+        this.transport?.send(command);
+    }
+
+    receive(msg: RemoteMessage) {
+        if (msg.type !== 'state') return;
+        this.state = msg;
+        this.setStatus('open', 'CONNECTED');
+        this.render();
+    }
+
+    setStatus(status: string, text: string) {
+        this.status.dataset.status = status;
+        this.status.textContent = text;
+    }
+
+    initControls() {
+        document.getElementById('controls')!.addEventListener('click', e => {
+            const button = (e.target as HTMLElement).closest('button');
+            if (!button) return;
+            const { command, mode, theme } = button.dataset;
+            if (mode) this.send({ type: 'mode', id: mode });
+            if (theme) this.send({ type: 'theme', id: theme });
+            switch (command) {
+                case 'prev': this.send({ type: 'navigate', step: -1 }); break;
+                case 'next': this.send({ type: 'navigate', step: 1 }); break;
+                case 'focus': this.send({ type: 'focus' }); break;
+                case 'upload': document.getElementById('upload')!.click(); break;
+            }
+        });
+
+        const upload = document.getElementById('upload') as HTMLInputElement;
+        upload.addEventListener('change', async () => {
+            const files = Array.from(upload.files ?? []);
+            upload.value = '';
+            for (const [i, file] of files.entries()) {
+                this.setStatus('open', `SENDING ${i + 1} / ${files.length}`);
+                try {
+                    this.send({ type: 'photo', name: file.name, data: await shrinkPhoto(file) });
+                } catch(e) {
+                    console.warn(`Photo ${file.name} could not be read`, e);
+                }
+            }
+            this.setStatus('open', 'CONNECTED');
+        });
+
+        // 拖动的位移攒起来按固定间隔发送，避免每个 pointermove 都发一条
+        const pad = document.getElementById('pad')!;
+        let last: { x: number; y: number } | null = null;
+        pad.addEventListener('pointerdown', e => {
+            pad.setPointerCapture(e.pointerId);
+            last = { x: e.clientX, y: e.clientY };
+        });
+        pad.addEventListener('pointermove', e => {
+            if (!last) return;
+            this.pending.yaw += (e.clientX - last.x) * ROTATE_PER_PIXEL;
+            this.pending.pitch += (e.clientY - last.y) * ROTATE_PER_PIXEL * 0.5;
+            last = { x: e.clientX, y: e.clientY };
+            if (!this.rotateTimer) this.rotateTimer = window.setTimeout(() => this.flushRotate(), ROTATE_INTERVAL);
+        });
+        const end = () => last = null;
+        pad.addEventListener('pointerup', end);
+        pad.addEventListener('pointercancel', end);
+    }
+
+    flushRotate() {
+        this.rotateTimer = 0;
+        const { yaw, pitch } = this.pending;
+        this.pending = { yaw: 0, pitch: 0 };
+        if (yaw || pitch) this.send({ type: 'rotate', yaw, pitch });
+    }
+
+    render() {
+        const state = this.state;
+        document.getElementById('pair')!.classList.toggle('hidden', !!state);
+        document.getElementById('controls')!.classList.toggle('hidden', !state);
+        if (!state) return;
+        this.renderOptions('formations', state.formations, state.mode, 'mode');
+        this.renderOptions('themes', state.themes, state.theme, 'theme');
+        const photos = `${state.photos} ${state.photos === 1 ? 'PHOTO' : 'PHOTOS'}`;
+        document.getElementById('summary')!.textContent = state.focused ? `${photos} · ${state.focused}` : photos;
+        document.querySelectorAll<HTMLButtonElement>('[data-command="prev"], [data-command="next"], [data-command="focus"]')
+            .forEach(b => b.disabled = state.photos === 0);
+    }
+
+    renderOptions(id: string, options: RemoteOption[], active: string, key: 'mode' | 'theme') {
+        const root = document.getElementById(id)!;
+        root.replaceChildren(...options.map(o => {
+            const button = document.createElement('button');
+            button.className = 'btn';
+            button.textContent = o.label;
+            button.dataset[key] = o.id;
+            button.classList.toggle('active', o.id === active);
+            return button;
+        }));
+    }
+}
+
+new RemoteController();
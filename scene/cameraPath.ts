@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import type { CameraPose } from './cameraRig';
+
+// --- 相机路径：按时间排列的关键机位，播放时用 Catmull-Rom 曲线平滑穿过每一个 ---
+
+export interface CameraKey {
+    // 距路径开头的秒数
+    time: number;
+    target: [number, number, number];
+    yaw: number;
+    pitch: number;
+    distance: number;
+}
+
+export interface CameraPath {
+    id: string;
+    label: string;
+    custom?: boolean;
+    keys: CameraKey[];
+}
+
+// 预设按默认树高 18 设计：树干在 y ≈ -9，星星在 y ≈ 10
+export const CAMERA_PATHS: CameraPath[] = [
+    {
+        id: 'crane',
+        label: 'CRANE',
+        keys: [
+            { time: 0, target: [0, -8, 0], yaw: -0.3, pitch: -0.2, distance: 24 },
+            { time: 4, target: [0, -3, 0], yaw: 0.1, pitch: -0.05, distance: 26 },
+            { time: 8, target: [0, 3, 0], yaw: 0.5, pitch: 0.1, distance: 26 },
+            { time: 12, target: [0, 9, 0], yaw: 0.8, pitch: 0.3, distance: 20 }
+        ]
+    },
+    {
+        id: 'circle',
+        label: 'CIRCLE',
+        keys: [0, 1, 2, 3, 4].map((i): CameraKey => ({ time: i * 5, target: [0, 2, 0], yaw: i * Math.PI / 2, pitch: 0.2, distance: 42 }))
+    },
+    {
+        id: 'descent',
+        label: 'DESCENT',
+        keys: [
+            { time: 0, target: [0, 4, 0], yaw: 0, pitch: 1.3, distance: 60 },
+            { time: 5, target: [0, 3, 0], yaw: -0.6, pitch: 0.7, distance: 45 },
+            { time: 10, target: [0, 2, 0], yaw: 0, pitch: 0, distance: 50 }
+        ]
+    }
+];
+
+export const pathDuration = (path: CameraPath) => path.keys[path.keys.length - 1]?.time ?? 0;
+
+export function keyFromPose(time: number, pose: Readonly<CameraPose>): CameraKey {
+    const round = (v: number) => Math.round(v * 1000) / 1000;
+    return {
+        time,
+        target: [round(pose.target.x), round(pose.target.y), round(pose.target.z)],
+        yaw: round(pose.yaw),
+        pitch: round(pose.pitch),
+        distance: round(pose.distance)
+    };
+}
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, u: number) =>
+    0.5 * (2 * p1 + (p2 - p0) * u + (2 * p0 - 5 * p1 + 4 * p2 - p3) * u * u + (3 * p1 - p0 - 3 * p2 + p3) * u * u * u);
+
+/**
+ * Samples the path at `time` seconds into `out`. Times before the first or
+ * after the last key hold that key. Yaw is interpolated as stored, so a path
+ * whose keys count up past 2π keeps circling instead of turning back.
+ */
+export function samplePath(path: CameraPath, time: number, out: CameraPose): CameraPose {
+    const keys = path.keys;
+    let i = 0;
+    while (i < keys.length - 2 && time >= keys[i + 1].time) i++;
+    const k1 = keys[i];
+    const k2 = keys[Math.min(i + 1, keys.length - 1)];
+    const k0 = keys[Math.max(i - 1, 0)];
+    const k3 = keys[Math.min(i + 2, keys.length - 1)];
+    const span = k2.time - k1.time;
+    const u = span > 0 ? THREE.MathUtils.clamp((time - k1.time) / span, 0, 1) : 0;
+    const at = (get: (k: CameraKey) => number) => catmullRom(get(k0), get(k1), get(k2), get(k3), u);
+
+    out.target.set(at(k => k.target[0]), at(k => k.target[1]), at(k => k.target[2]));
+    out.yaw = at(k => k.yaw);
+    out.pitch = at(k => k.pitch);
+    out.distance = at(k => k.distance);
+    return out;
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// 读回保存的关键帧；结构不对时抛错，时间必须从 0 开始递增
+export function parseCameraKeys(raw: unknown): CameraKey[] {
+    if (!Array.isArray(raw) || raw.length < 2) throw new Error('a camera path needs at least two keys');
+    return raw.map((k: any, i) => {
+        const target = k?.target;
+        if (!isNumber(k?.time) || !Array.isArray(target) || target.length !== 3 || !target.every(isNumber)
+            || !isNumber(k.yaw) || !isNumber(k.pitch) || !isNumber(k.distance)) {
+            throw new Error(`key ${i + 1} is malformed`);
+        }
+        if (i === 0 ? k.time !== 0 : k.time <= raw[i - 1].time) throw new Error(`key ${i + 1} is out of order`);
+        return { time: k.time, target: [target[0], target[1], target[2]], yaw: k.yaw, pitch: k.pitch, distance: k.distance };
+    });
+}
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { damp } from './clock';
+
+// --- 相机：绕目标点的轨道机位（环绕、缩放、平移），以及机位之间的缓动飞行 ---
+
+export interface CameraPose {
+    target: THREE.Vector3;
+    // 绕 y 轴的方位角与仰角（弧度），相机在目标点的 +z 方向时两者都是 0
+    yaw: number;
+    pitch: number;
+    distance: number;
+}
+
+// 原来固定的相机：在 (0, 2, 50) 平视树的中段
+export const HOME_POSE: Readonly<CameraPose> = { target: new THREE.Vector3(0, 2, 0), yaw: 0, pitch: 0, distance: 50 };
+
+const PITCH_MIN = -0.5;
+const PITCH_MAX = 1.4;
+const DISTANCE_MIN = 10;
+const DISTANCE_MAX = 90;
+// 平移不让目标点离开树太远，免得找不回来
+const PAN_LIMIT = new THREE.Vector3(30, 20, 30);
+
+const TWO_PI = Math.PI * 2;
+const wrapAngle = (a: number) => a - Math.round(a / TWO_PI) * TWO_PI;
+const easeInOut = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+export const clonePose = (p: Readonly<CameraPose>): CameraPose => ({ target: p.target.clone(), yaw: p.yaw, pitch: p.pitch, distance: p.distance });
+
+// out 可以就是 a；yaw 走较短的一边，累积了很多圈也不会绕着转回去
+export function lerpPose(out: CameraPose, a: Readonly<CameraPose>, b: Readonly<CameraPose>, t: number) {
+    out.target.lerpVectors(a.target, b.target, t);
+    out.yaw = a.yaw + wrapAngle(b.yaw - a.yaw) * t;
+    out.pitch = a.pitch + (b.pitch - a.pitch) * t;
+    out.distance = a.distance + (b.distance - a.distance) * t;
+    return out;
+}
+
+const _right = new THREE.Vector3();
+const _up = new THREE.Vector3();
+const _zero = new THREE.Vector2();
+
+export class CameraRig {
+    camera: THREE.PerspectiveCamera;
+    // 用户摆好的机位：拖动、滚轮、平移都改它
+    orbit = clonePose(HOME_POSE);
+    // 手掌位置带来的临时偏移（yaw, pitch），手离开后回零
+    sway = new THREE.Vector2();
+    swayTarget = new THREE.Vector2();
+    // 这一帧实际使用的机位
+    current = clonePose(HOME_POSE);
+    flight: { from: CameraPose; elapsed: number; duration: number } | null = null;
+    private goal = clonePose(HOME_POSE);
+
+    constructor(camera: THREE.PerspectiveCamera) {
+        this.camera = camera;
+        this.apply();
+    }
+
+    // 与原来转动树的方向一致：向右拖，树向右转，也就是相机向左绕
+    rotate(yaw: number, pitch: number) {
+        this.orbit.yaw -= yaw;
+        this.orbit.pitch = THREE.MathUtils.clamp(this.orbit.pitch + pitch, PITCH_MIN, PITCH_MAX);
+    }
+
+    // 手势给的是绝对角度，叠加在轨道机位上
+    steer(yaw: number, pitch: number) {
+        this.swayTarget.set(-yaw, pitch);
+    }
+
+    release() {
+        this.swayTarget.set(0, 0);
+    }
+
+    zoom(factor: number) {
+        this.orbit.distance = THREE.MathUtils.clamp(this.orbit.distance / factor, DISTANCE_MIN, DISTANCE_MAX);
+    }
+
+    // x、y 是屏幕宽高的比例；按当前距离换算成世界长度，拖动时画面跟着手指走
+    pan(x: number, y: number) {
+        const height = 2 * this.current.distance * Math.tan(THREE.MathUtils.degToRad(this.camera.fov) / 2);
+        _right.set(1, 0, 0).applyQuaternion(this.camera.quaternion);
+        _up.set(0, 1, 0).applyQuaternion(this.camera.quaternion);
+        this.orbit.target.addScaledVector(_right, -x * height * this.camera.aspect).addScaledVector(_up, y * height);
+        this.orbit.target.clamp(_up.copy(PAN_LIMIT).negate(), PAN_LIMIT);
+    }
+
+    reset() {
+        this.orbit = clonePose(HOME_POSE);
+        this.fly(1);
+    }
+
+    // 把当前机位当作新的轨道机位，比如路径播完后停在最后一帧
+    hold() {
+        this.orbit = clonePose(this.current);
+        this.sway.set(0, 0);
+        this.flight = null;
+    }
+
+    // 机位来源切换（聚焦、路径、回到轨道）时调用，从当前位置缓动飞到新机位
+    fly(duration: number) {
+        this.flight = { from: clonePose(this.current), elapsed: 0, duration };
+    }
+
+    /**
+     * Moves the camera for one frame. With a `shot` (a focused photo or a
+     * camera path) the camera sits exactly on it; otherwise it eases towards
+     * the orbit pose. A running flight blends from where the camera was to
+     * the live destination, so a moving shot is picked up without a jump.
+     */
+    update(realDt: number, shot: Readonly<CameraPose> | null) {
+        this.sway.lerp(shot ? _zero : this.swayTarget, damp(0.05, realDt));
+        const goal = shot ?? this.orbitGoal();
+        const flight = this.flight;
+        if (flight) {
+            flight.elapsed += realDt;
+            const t = Math.min(flight.elapsed / flight.duration, 1);
+            lerpPose(this.current, flight.from, goal, easeInOut(t));
+            if (t >= 1) this.flight = null;
+        } else {
+            lerpPose(this.current, this.current, goal, shot ? 1 : damp(0.1, realDt));
+        }
+        this.apply();
+    }
+
+    private orbitGoal() {
+        const goal = this.goal;
+        goal.target.copy(this.orbit.target);
+        goal.yaw = this.orbit.yaw + this.sway.x;
+        goal.pitch = THREE.MathUtils.clamp(this.orbit.pitch + this.sway.y, PITCH_MIN, PITCH_MAX);
+        goal.distance = this.orbit.distance;
+        return goal;
+    }
+
+    private apply() {
+        const { target, yaw, pitch, distance } = this.current;
+        this.camera.position.set(
+            target.x + Math.sin(yaw) * Math.cos(pitch) * distance,
+            target.y + Math.sin(pitch) * distance,
+            target.z + Math.cos(yaw) * Math.cos(pitch) * distance
+        );
+        this.camera.lookAt(target);
+    }
+}
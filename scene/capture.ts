@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import type { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+
+// --- 截图与录像：只取画布上的后期合成结果，HUD 和光标是 DOM，不会入镜 ---
+
+export interface VideoOptions {
+    width: number;
+    height: number;
+    // 秒
+    duration: number;
+    fps: number;
+}
+
+// Safari 不支持 WebM，退回 MP4
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+// 高倍截图的边长上限，再大很多显卡分配不了帧缓冲
+const MAX_STILL_SIZE = 8192;
+
+export function pickVideoType() {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return VIDEO_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+export class SceneCapture {
+    renderer: THREE.WebGLRenderer;
+    composer: EffectComposer;
+    camera: THREE.PerspectiveCamera;
+    scene: THREE.Scene;
+    recorder: MediaRecorder | null = null;
+    stopTimer = 0;
+    // 截图或录像期间画布尺寸由这里接管，窗口缩放要等结束后再处理
+    busy = false;
+    private saved: { width: number; height: number; pixelRatio: number; background: THREE.Color | THREE.Texture | null } | null = null;
+
+    constructor(renderer: THREE.WebGLRenderer, composer: EffectComposer, camera: THREE.PerspectiveCamera, scene: THREE.Scene) {
+        this.renderer = renderer;
+        this.composer = composer;
+        this.camera = camera;
+        this.scene = scene;
+    }
+
+    get recording() {
+        return this.recorder !== null;
+    }
+
+    // 临时把画布切到给定的像素尺寸；页面上的画布大小不变，用 object-fit 保持预览不变形
+    private begin(width: number, height: number, pixelRatio: number) {
+        const size = this.renderer.getSize(new THREE.Vector2());
+        this.saved = { width: size.x, height: size.y, pixelRatio: this.renderer.getPixelRatio(), background: this.scene.background };
+        this.busy = true;
+        // 画布是透明的，背景色来自页面，导出的画面要把背景画进去
+        this.scene.background = new THREE.Color().setStyle(getComputedStyle(document.body).backgroundColor);
+        this.renderer.domElement.style.objectFit = 'contain';
+        this.resize(width, height, pixelRatio);
+    }
+
+    private end() {
+        const saved = this.saved;
+        if (!saved) return;
+        this.scene.background = saved.background;
+        this.renderer.domElement.style.objectFit = '';
+        this.resize(saved.width, saved.height, saved.pixelRatio);
+        this.saved = null;
+        this.busy = false;
+    }
+
+    private resize(width: number, height: number, pixelRatio: number) {
+        this.renderer.setPixelRatio(pixelRatio);
+        this.renderer.setSize(width, height, false);
+        this.composer.setPixelRatio(pixelRatio);
+        this.composer.setSize(width, height);
+        this.camera.aspect = width / height;
+        this.camera.updateProjectionMatrix();
+    }
+
+    // 按屏幕尺寸的 scale 倍渲染一帧 PNG，泛光和色调映射与屏幕上一致
+    snapshot(scale: number): Promise<Blob> {
+        const size = this.renderer.getSize(new THREE.Vector2());
+        const limit = Math.min(this.renderer.capabilities.maxTextureSize, MAX_STILL_SIZE);
+        const ratio = Math.min(scale, limit / Math.max(size.x, size.y));
+        this.begin(size.x, size.y, ratio);
+        let result: Promise<Blob>;
+        try {
+            this.composer.render();
+            // toBlob 会同步复制当前画面，之后立刻恢复尺寸不影响结果
+            result = new Promise((resolve, reject) => {
+                this.renderer.domElement.toBlob(b => b ? resolve(b) : reject(new Error('The snapshot could not be encoded')), 'image/png');
+            });
+        } finally {
+            this.end();
+        }
+        return result;
+    }
+
+    record(options: VideoOptions): Promise<Blob> {
+        const type = pickVideoType();
+        if (!type) return Promise.reject(new Error('This browser cannot record video'));
+        if (this.recorder) return Promise.reject(new Error('A recording is already running'));
+
+        // 编码器要求偶数尺寸
+        const width = Math.round(options.width / 2) * 2;
+        const height = Math.round(options.height / 2) * 2;
+        this.begin(width, height, 1);
+        const stream = this.renderer.domElement.captureStream(options.fps);
+        const recorder = new MediaRecorder(stream, {
+            mimeType: type,
+            videoBitsPerSecond: Math.round(width * height * options.fps * 0.12)
+        });
+        this.recorder = recorder;
+        const chunks: Blob[] = [];
+
+        return new Promise((resolve, reject) => {
+            const finish = () => {
+                window.clearTimeout(this.stopTimer);
+                stream.getTracks().forEach(t => t.stop());
+                this.recorder = null;
+                this.end();
+            };
+            recorder.ondataavailable = e => {
+                if (e.data.size > 0) chunks.push(e.data);
+            };
+            recorder.onstop = () => {
+                finish();
+                resolve(new Blob(chunks, { type: type.split(';')[0] }));
+            };
+            recorder.onerror = () => {
+                finish();
+                reject(new Error('The recording failed'));
+            };
+            recorder.start(1000);
+            this.stopTimer = window.setTimeout(() => this.stop(), options.duration * 1000);
+        });
+    }
+
+    stop() {
+        if (this.recorder?.state === 'recording') this.recorder.stop();
+    }
+}
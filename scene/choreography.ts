@@ -0,0 +1,76 @@
+// --- 预设的自动表演：依次切换阵型，最后逐张展示照片，适合免手动录像 ---
+
+export type ChoreographyStep =
+    | { type: 'formation'; id: string; hold: number }
+    | { type: 'tour'; perPhoto: number };
+
+export const DEFAULT_CHOREOGRAPHY: ChoreographyStep[] = [
+    { type: 'formation', id: 'tree', hold: 4 },
+    { type: 'formation', id: 'scatter', hold: 3 },
+    { type: 'formation', id: 'heart', hold: 4 },
+    { type: 'tour', perPhoto: 2.5 },
+    { type: 'formation', id: 'tree', hold: 3 }
+];
+
+export interface ChoreographyActions {
+    formation(id: string): void;
+    focus(index: number): void;
+    photoCount(): number;
+}
+
+export class Choreography {
+    steps: ChoreographyStep[];
+    actions: ChoreographyActions;
+    step = -1;
+    elapsed = 0;
+    photo = -1;
+    done = false;
+
+    constructor(actions: ChoreographyActions, steps = DEFAULT_CHOREOGRAPHY) {
+        this.actions = actions;
+        this.steps = steps;
+    }
+
+    // 总时长（秒），录像长度按这个定
+    get duration() {
+        const photos = this.actions.photoCount();
+        return this.steps.reduce((sum, s) => sum + (s.type === 'formation' ? s.hold : s.perPhoto * photos), 0);
+    }
+
+    start() {
+        this.done = false;
+        this.enter(0);
+    }
+
+    private enter(index: number) {
+        this.step = index;
+        this.elapsed = 0;
+        this.photo = -1;
+        const step = this.steps[index];
+        if (!step) {
+            this.done = true;
+            return;
+        }
+        if (step.type === 'formation') this.actions.formation(step.id);
+        else if (this.actions.photoCount() === 0) this.enter(index + 1);
+        else this.showPhoto(0);
+    }
+
+    private showPhoto(index: number) {
+        this.photo = index;
+        this.actions.focus(index);
+    }
+
+    update(dt: number) {
+        const step = this.steps[this.step];
+        if (this.done || !step) return;
+        this.elapsed += dt;
+        if (step.type === 'formation') {
+            if (this.elapsed >= step.hold) this.enter(this.step + 1);
+            return;
+        }
+        const index = Math.floor(this.elapsed / step.perPhoto);
+        if (index >= this.actions.photoCount()) this.enter(this.step + 1);
+        else if (index !== this.photo) this.showPhoto(index);
+    }
+}
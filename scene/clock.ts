@@ -0,0 +1,41 @@
+// --- 模拟时钟：按真实帧间隔推进，支持暂停与慢动作 ---
+
+// 切回标签页时单帧最多推进 0.1 秒，动画不会一下子跳完
+const MAX_DT = 0.1;
+// 各处的逐帧插值系数都是按 60fps 调出来的
+const REFERENCE_FPS = 60;
+
+export const SLOW_MOTION_SCALE = 0.25;
+
+export class SimulationClock {
+    // 模拟时间（秒），暂停时不走
+    time = 0;
+    dt = 0;
+    // 真实时间：输入、相机跟随不受暂停和慢动作影响
+    realTime = 0;
+    realDt = 0;
+    scale = 1;
+    paused = false;
+    last = -1;
+
+    tick(now: number) {
+        this.realDt = this.last < 0 ? 1 / REFERENCE_FPS : Math.min((now - this.last) / 1000, MAX_DT);
+        this.last = now;
+        this.realTime += this.realDt;
+        this.dt = this.paused ? 0 : this.realDt * this.scale;
+        this.time += this.dt;
+    }
+}
+
+/**
+ * Converts a lerp factor tuned for one 60 fps frame into the factor for a
+ * frame of `dt` seconds, so easing takes the same wall time at any refresh rate.
+ */
+export function damp(factor: number, dt: number) {
+    return 1 - Math.pow(1 - factor, dt * REFERENCE_FPS);
+}
+
+// 按 60fps 定义的逐帧增量换算成本帧的增量
+export function perFrame(amount: number, dt: number) {
+    return amount * dt * REFERENCE_FPS;
+}
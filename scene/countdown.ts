@@ -0,0 +1,164 @@
+import { CONFIG } from '../config';
+import { Mode } from './formations';
+
+// --- 倒计时：数到节日零点，到点后放一场烟花表演；时间可以模拟，不必真的等到那天 ---
+
+export const COUNTDOWN_TARGETS = [
+    { id: 'christmas', label: 'CHRISTMAS' },
+    { id: 'newyear', label: 'NEW YEAR' }
+];
+
+// 睡着的标签页醒来时，目标已经过去这么久就不再补放表演
+const LATE_MS = 60 * 1000;
+
+/**
+ * Resolves a countdown target to a timestamp. `christmas` is the midnight
+ * that ends Christmas Eve and `newyear` is midnight on 1 January, both in
+ * local time and always the next one after `now`. Anything else is read as
+ * a local date or date-time (`2026-12-24T20:00`). Returns null when the
+ * text cannot be read.
+ */
+export function resolveTarget(target: string, now: number): number | null {
+    const year = new Date(now).getFullYear();
+    const yearly = (month: number, day: number) => {
+        const at = new Date(year, month, day).getTime();
+        return at > now ? at : new Date(year + 1, month, day).getTime();
+    };
+    if (target === 'christmas') return yearly(11, 25);
+    if (target === 'newyear') return yearly(0, 1);
+    // 只有日期时 Date.parse 按 UTC 算，补上时刻让它按本地时间
+    const text = /^\d{4}-\d{2}-\d{2}$/.test(target.trim()) ? `${target.trim()}T00:00` : target.trim();
+    const at = Date.parse(text);
+    return Number.isNaN(at) ? null : at;
+}
+
+export class CountdownTimer {
+    // 模拟时间相对真实时间的偏移（毫秒），0 表示用真实时间
+    offset = 0;
+    // 当前排定的目标（CONFIG 里的写法）和对应的时刻
+    target = '';
+    at: number | null = null;
+    // 上一帧的时间，用来判断这一帧有没有跨过目标
+    last = 0;
+
+    get now() {
+        return Date.now() + this.offset;
+    }
+
+    get simulated() {
+        return this.offset !== 0;
+    }
+
+    // 距目标的毫秒数，没有可用的目标时为 null
+    get remaining() {
+        return this.at === null ? null : this.at - this.now;
+    }
+
+    schedule(target: string) {
+        this.target = target;
+        this.last = this.now;
+        this.at = resolveTarget(target, this.last);
+    }
+
+    // 把时钟拨到某个时刻；直接跳过目标不会触发表演
+    simulate(time: number) {
+        this.offset = time - Date.now();
+        this.schedule(this.target);
+    }
+
+    realTime() {
+        this.simulate(Date.now());
+    }
+
+    /**
+     * Call once per frame. Returns true on the frame the clock passes the
+     * target, then moves yearly targets on to next year. Reschedules first
+     * when the configured target has changed.
+     */
+    update(target: string): boolean {
+        if (target !== this.target) this.schedule(target);
+        const now = this.now;
+        const at = this.at;
+        const crossed = at !== null && this.last < at && now >= at;
+        this.last = now;
+        if (!crossed) return false;
+        this.at = resolveTarget(this.target, now);
+        return now - at! < LATE_MS;
+    }
+}
+
+// 剩余时间写成 12 DAYS 04:05:06，不足一天时只有时分秒
+export function formatRemaining(ms: number) {
+    const total = Math.max(0, Math.ceil(ms / 1000));
+    const days = Math.floor(total / 86400);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const clock = `${pad(Math.floor(total / 3600) % 24)}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+    return days > 0 ? `${days} ${days === 1 ? 'DAY' : 'DAYS'} ${clock}` : clock;
+}
+
+// --- 表演：星星变亮，粒子炸开、烟花齐放、祝福出现，最后从树顶往下依次落回 ---
+
+export interface ShowActions {
+    flare(): void;
+    formation(id: string): void;
+    // 落回 CONFIG.countdown.finale
+    cascade(): void;
+    launch(): void;
+    greeting(on: boolean): void;
+}
+
+// 表演的时间线（秒）：零点先放烟花、点亮星星，随后散开；落回之后还有一轮齐射
+const SCATTER_AT = 0.6;
+const CASCADE_AT = 5;
+const SALVO_AT = 9;
+const SALVO = 8;
+const LAUNCH_UNTIL = 10;
+const GREETING_UNTIL = 12;
+export const SHOW_DURATION = 14;
+
+const CUES: { at: number; run(actions: ShowActions): void }[] = [
+    { at: 0, run: a => a.flare() },
+    { at: SCATTER_AT, run: a => { a.formation(Mode.SCATTER); a.greeting(true); } },
+    { at: CASCADE_AT, run: a => a.cascade() },
+    { at: SALVO_AT, run: a => { for (let i = Math.round(SALVO * CONFIG.countdown.fireworks); i > 0; i--) a.launch(); } },
+    { at: GREETING_UNTIL, run: a => a.greeting(false) }
+];
+
+export class CountdownShow {
+    actions: ShowActions;
+    active = false;
+    elapsed = 0;
+    cue = 0;
+    nextLaunch = 0;
+
+    constructor(actions: ShowActions) {
+        this.actions = actions;
+    }
+
+    start() {
+        this.active = true;
+        this.elapsed = 0;
+        this.cue = 0;
+        this.nextLaunch = 0;
+    }
+
+    // 手动切换阵型时提前结束，已经升空的烟花照常放完
+    stop() {
+        if (!this.active) return;
+        this.active = false;
+        this.actions.greeting(false);
+    }
+
+    update(dt: number) {
+        if (!this.active) return;
+        this.elapsed += dt;
+        while (this.cue < CUES.length && this.elapsed >= CUES[this.cue].at) CUES[this.cue++].run(this.actions);
+        // 齐射之前按随机间隔一发一发地放，倍数越大越密
+        const rate = CONFIG.countdown.fireworks;
+        while (rate > 0 && this.elapsed < LAUNCH_UNTIL && this.elapsed >= this.nextLaunch) {
+            this.actions.launch();
+            this.nextLaunch += (0.3 + Math.random() * 0.5) / rate;
+        }
+        if (this.elapsed >= SHOW_DURATION) this.active = false;
+    }
+}
@@ -0,0 +1,280 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+
+// --- 烟花：礼花弹拖着尾迹升空，到顶炸开成火花；火花池在 CPU 上模拟，一次画完 ---
+
+export type BurstStyle = 'peony' | 'ring' | 'willow' | 'palm';
+
+const BURST_STYLES: BurstStyle[] = ['peony', 'peony', 'ring', 'willow', 'palm'];
+
+// 礼花弹从地面绕着树发射，在这个高度范围内炸开
+const GROUND = -12;
+const BURST_LOW = 12;
+const BURST_HIGH = 24;
+const RING_NEAR = 14;
+const RING_FAR = 28;
+const SHELL_GRAVITY = 14;
+const SPARK_GRAVITY = 6;
+// 尾迹：每隔这么多秒在火花身后留下一粒很快熄灭的余烬
+const TRAIL_GAP = 0.03;
+const EMBER_LIFE = 0.5;
+
+interface Shell {
+    pos: THREE.Vector3;
+    vel: THREE.Vector3;
+    palette: THREE.Color[];
+    style: BurstStyle;
+    trail: number;
+}
+
+interface SparkSpec {
+    speed: number;
+    life: number;
+    drag: number;
+    size: number;
+    // 重力的倍数，柳树型的火花下垂得慢一些
+    fall: number;
+    trail: boolean;
+}
+
+const vertexShader = /* glsl */`
+    attribute vec3 aColor;
+    attribute float aAlpha;
+    attribute float aSize;
+    uniform float uScale;
+    varying vec3 vColor;
+    varying float vAlpha;
+
+    void main() {
+        vColor = aColor;
+        vAlpha = aAlpha;
+        vec4 mv = modelViewMatrix * vec4(position, 1.0);
+        gl_PointSize = aSize * uScale / -mv.z;
+        gl_Position = projectionMatrix * mv;
+    }
+`;
+
+const fragmentShader = /* glsl */`
+    varying vec3 vColor;
+    varying float vAlpha;
+
+    void main() {
+        float d = 1.0 - length(gl_PointCoord - 0.5) * 2.0;
+        float a = d * d * vAlpha;
+        if (a < 0.01) discard;
+        // 中心发白过曝，交给泛光去晕开
+        gl_FragColor = vec4(vColor * (1.0 + 2.0 * d), a);
+    }
+`;
+
+const _size = new THREE.Vector2();
+const _dir = new THREE.Vector3();
+const _axis = new THREE.Vector3();
+const _ember = new THREE.Color();
+const _hsl = { h: 0, s: 0, l: 0 };
+
+// 烟花的配色取自当前调色板；树上的深绿、深红在夜空里看不见，提亮后再用
+export function fireworkPalettes(): THREE.Color[][] {
+    const { gold, red, love, star, snow, greens, lightHigh } = CONFIG.colors;
+    const bright = (hex: number) => {
+        const c = new THREE.Color(hex);
+        c.getHSL(_hsl);
+        return c.setHSL(_hsl.h, _hsl.s, Math.max(_hsl.l, 0.55));
+    };
+    return [[gold, lightHigh], [red, love], [love, gold], [star, snow], [greens[0], gold], [red, snow]].map(p => p.map(bright));
+}
+
+export class Fireworks {
+    points: THREE.Points;
+    material: THREE.ShaderMaterial;
+    capacity: number;
+    count = 0;
+    shells: Shell[] = [];
+    // 画质档位给出的火花比例
+    quality = 1;
+    // 每个火花的模拟状态；位置、颜色、透明度和大小直接就是绘制用的属性
+    position: Float32Array;
+    color: Float32Array;
+    alpha: Float32Array;
+    size: Float32Array;
+    velocity: Float32Array;
+    life: Float32Array;
+    maxLife: Float32Array;
+    drag: Float32Array;
+    fall: Float32Array;
+    // 大于 0 时会留尾迹，值是离下一粒余烬的秒数
+    trail: Float32Array;
+
+    constructor(capacity: number) {
+        this.capacity = capacity;
+        this.position = new Float32Array(capacity * 3);
+        this.color = new Float32Array(capacity * 3);
+        this.alpha = new Float32Array(capacity);
+        this.size = new Float32Array(capacity);
+        this.velocity = new Float32Array(capacity * 3);
+        this.life = new Float32Array(capacity);
+        this.maxLife = new Float32Array(capacity);
+        this.drag = new Float32Array(capacity);
+        this.fall = new Float32Array(capacity);
+        this.trail = new Float32Array(capacity);
+
+        const geometry = new THREE.BufferGeometry();
+        const attribute = (array: Float32Array, size: number) => new THREE.BufferAttribute(array, size).setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute('position', attribute(this.position, 3));
+        geometry.setAttribute('aColor', attribute(this.color, 3));
+        geometry.setAttribute('aAlpha', attribute(this.alpha, 1));
+        geometry.setAttribute('aSize', attribute(this.size, 1));
+        geometry.setDrawRange(0, 0);
+
+        this.material = new THREE.ShaderMaterial({
+            vertexShader,
+            fragmentShader,
+            uniforms: { uScale: { value: 1 } },
+            transparent: true,
+            depthWrite: false,
+            blending: THREE.AdditiveBlending
+        });
+        this.points = new THREE.Points(geometry, this.material);
+        this.points.frustumCulled = false;
+        this.points.visible = false;
+        // 与雪花一样按透视缩放
+        this.points.onBeforeRender = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera) => {
+            renderer.getDrawingBufferSize(_size);
+            this.material.uniforms.uScale.value = _size.y / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2));
+        };
+    }
+
+    get busy() {
+        return this.count > 0 || this.shells.length > 0;
+    }
+
+    // 从树周围的地面发射一枚礼花弹，初速度刚好让它在炸开的高度停住
+    launch(style?: BurstStyle) {
+        const palettes = fireworkPalettes();
+        const angle = Math.random() * Math.PI * 2;
+        const radius = RING_NEAR + Math.random() * (RING_FAR - RING_NEAR);
+        const height = BURST_LOW + Math.random() * (BURST_HIGH - BURST_LOW);
+        this.shells.push({
+            pos: new THREE.Vector3(Math.cos(angle) * radius, GROUND, Math.sin(angle) * radius),
+            vel: new THREE.Vector3((Math.random() - 0.5) * 3, Math.sqrt(2 * SHELL_GRAVITY * (height - GROUND)), (Math.random() - 0.5) * 3),
+            palette: palettes[Math.floor(Math.random() * palettes.length)],
+            style: style ?? BURST_STYLES[Math.floor(Math.random() * BURST_STYLES.length)],
+            trail: 0
+        });
+    }
+
+    clear() {
+        this.shells = [];
+        this.count = 0;
+        this.points.geometry.setDrawRange(0, 0);
+        this.points.visible = false;
+    }
+
+    update(dt: number) {
+        if (dt <= 0 || !this.busy) return;
+        this.shells = this.shells.filter(shell => {
+            shell.vel.y -= SHELL_GRAVITY * dt;
+            shell.pos.addScaledVector(shell.vel, dt);
+            shell.trail -= dt;
+            if (shell.trail <= 0) {
+                shell.trail = TRAIL_GAP;
+                this.spawn(shell.pos, _dir.set(0, 0, 0), shell.palette[0], EMBER_LIFE * 0.6, 0, 0.35, 0.3, false);
+            }
+            if (shell.vel.y > 0) return true;
+            this.burst(shell);
+            return false;
+        });
+
+        const { position: pos, velocity: vel } = this;
+        let i = 0;
+        while (i < this.count) {
+            this.life[i] -= dt;
+            if (this.life[i] <= 0) {
+                this.remove(i);
+                continue;
+            }
+            const k = Math.exp(-this.drag[i] * dt);
+            const j = i * 3;
+            vel[j] *= k;
+            vel[j + 1] = vel[j + 1] * k - SPARK_GRAVITY * this.fall[i] * dt;
+            vel[j + 2] *= k;
+            pos[j] += vel[j] * dt;
+            pos[j + 1] += vel[j + 1] * dt;
+            pos[j + 2] += vel[j + 2] * dt;
+
+            const t = this.life[i] / this.maxLife[i];
+            // 快熄灭时闪烁几下
+            this.alpha[i] = t > 0.3 ? t : t * (0.5 + 0.5 * Math.sin(this.life[i] * 60 + i));
+            if (this.trail[i] > 0) {
+                this.trail[i] -= dt;
+                if (this.trail[i] <= 0) {
+                    this.trail[i] = TRAIL_GAP;
+                    _axis.fromArray(pos, j);
+                    _ember.fromArray(this.color, j).multiplyScalar(0.6);
+                    this.spawn(_axis, _dir.set(0, 0, 0), _ember, EMBER_LIFE * t, 0, 0.3, this.size[i] * 0.6, false);
+                }
+            }
+            i++;
+        }
+
+        const geometry = this.points.geometry;
+        geometry.setDrawRange(0, this.count);
+        ['position', 'aColor', 'aAlpha', 'aSize'].forEach(name => geometry.getAttribute(name).needsUpdate = true);
+        this.points.visible = this.count > 0;
+    }
+
+    // 按样式决定火花的数量、速度和寿命，方向在球面、圆环或几条粗枝上
+    private burst(shell: Shell) {
+        const { palette, style, pos } = shell;
+        const specs: Record<BurstStyle, SparkSpec & { count: number }> = {
+            peony: { count: 120, speed: 10, life: 1.7, drag: 1.2, size: 0.6, fall: 1, trail: false },
+            ring: { count: 70, speed: 11, life: 1.5, drag: 1.2, size: 0.6, fall: 0.8, trail: false },
+            willow: { count: 90, speed: 7, life: 3.2, drag: 1.8, size: 0.5, fall: 0.5, trail: true },
+            palm: { count: 16, speed: 13, life: 2, drag: 1.4, size: 0.9, fall: 1, trail: true }
+        };
+        const spec = specs[style];
+        const count = Math.max(4, Math.round(spec.count * this.quality));
+        // 圆环所在平面的法线
+        _axis.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).normalize();
+        for (let n = 0; n < count; n++) {
+            if (style === 'ring') {
+                _dir.set(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).cross(_axis).normalize();
+            } else {
+                _dir.randomDirection();
+            }
+            const speed = spec.speed * (style === 'ring' ? 0.95 + Math.random() * 0.1 : 0.7 + Math.random() * 0.3);
+            // 柳树型只用金色，其余在两种颜色里随机挑
+            const color = style === 'willow' ? palette[0] : palette[Math.random() < 0.7 ? 0 : 1];
+            this.spawn(pos, _dir.multiplyScalar(speed), color, spec.life * (0.8 + Math.random() * 0.4), spec.drag, spec.fall, spec.size, spec.trail);
+        }
+    }
+
+    private spawn(pos: THREE.Vector3, vel: THREE.Vector3, color: THREE.Color, life: number, drag: number, fall: number, size: number, trail: boolean) {
+        if (this.count >= this.capacity || life <= 0) return;
+        const i = this.count++;
+        pos.toArray(this.position, i * 3);
+        vel.toArray(this.velocity, i * 3);
+        color.toArray(this.color, i * 3);
+        this.alpha[i] = 1;
+        this.size[i] = size;
+        this.life[i] = this.maxLife[i] = life;
+        this.drag[i] = drag;
+        this.fall[i] = fall;
+        this.trail[i] = trail ? TRAIL_GAP * (0.5 + Math.random() * 0.5) : 0;
+    }
+
+    // 熄灭的火花用最后一个顶上，绘制范围始终是连续的
+    private remove(i: number) {
+        const last = --this.count;
+        if (i === last) return;
+        this.position.copyWithin(i * 3, last * 3, last * 3 + 3);
+        this.velocity.copyWithin(i * 3, last * 3, last * 3 + 3);
+        this.color.copyWithin(i * 3, last * 3, last * 3 + 3);
+        [this.alpha, this.size, this.life, this.maxLife, this.drag, this.fall, this.trail].forEach(a => a[i] = a[last]);
+    }
+
+    dispose() {
+        this.points.geometry.dispose();
+        this.material.dispose();
+    }
+}
@@ -0,0 +1,33 @@
+import { CONFIG } from '../../config';
+import { Formation, FormationContext } from './formation';
+import type { Particle } from '../particle';
+
+// 其他粒子退到远处的球壳上并缩小
+function recede(p: Particle, ctx: FormationContext) {
+    const dist = 45 + ctx.random() * 25;
+    const phi = ctx.random() * Math.PI * 2;
+    const theta = ctx.random() * Math.PI;
+    p.state.target.set(Math.cos(phi)*Math.sin(theta)*dist, Math.sin(phi)*Math.sin(theta)*dist, Math.cos(theta)*dist);
+    p.state.targetScale.set(0.04, 0.04, 0.04);
+}
+
+// 一张照片留在原处放大、转向正面，其余全部退场；相机会飞到它前方
+export const focusFormation: Formation = {
+    id: 'focus',
+    label: 'FOCUS',
+    hidden: true,
+    showTrunk: false,
+    showStar: false,
+    hover: false,
+    transition: { speed: 0.08, focusSpeed: 0.15 },
+    placeDeco: (p, index, ctx) => recede(p, ctx),
+    placePhoto(p, index, ctx) {
+        if (p !== ctx.focusTarget) {
+            recede(p, ctx);
+            return;
+        }
+        p.state.target.copy(p.state.pos);
+        p.state.targetScale.set(CONFIG.interaction.focusScale, CONFIG.interaction.focusScale, CONFIG.interaction.focusScale);
+        p.rotation.set(0, 0, 0);
+    }
+};
@@ -0,0 +1,76 @@
+import type { Particle } from '../particle';
+import type { TreePin } from '../placement';
+
+// --- 阵型注册表：每个阵型决定粒子的目标位置、缩放和朝向 ---
+
+export interface FormationContext {
+    // 按照片库顺序排列
+    photos: Particle[];
+    // 针叶、彩球与灯（不含照片、挂饰、雪花）
+    deco: Particle[];
+    focusTarget: Particle | null;
+    // 每个粒子各自带种子的随机数：同一种子、同一阵型下位置固定，增删照片不会打乱整棵树
+    random: () => number;
+}
+
+export interface FormationAmbient {
+    // 轻微摇摆（仅未聚焦的粒子）
+    sway?: boolean;
+    // 灯光按各自频率闪烁缩放
+    flicker?: boolean;
+    // 整体心跳式缩放
+    pulse?: boolean;
+    // 每帧绕 y 轴自转的弧度，默认 0.005
+    spin?: number;
+    // 非照片粒子渐变到这个颜色
+    tint?: number;
+    // 照片每帧绕 y 轴公转的弧度
+    orbit?: number;
+}
+
+/**
+ * A shape the particles can morph into. `placeDeco` runs for every needle,
+ * bauble and light (check `p.state.type` for lights), `placePhoto` for every
+ * photo; both set `p.state.target`, `p.state.targetScale` and `p.rotation`.
+ */
+export interface Formation {
+    id: string;
+    label: string;
+    // 切换到这个阵型的快捷键
+    key?: string;
+    // 不出现在 HUD 阵型栏里（例如聚焦）
+    hidden?: boolean;
+    showTrunk: boolean;
+    showStar: boolean;
+    // 每帧向目标靠近的插值比例；focusSpeed 用于被聚焦的照片
+    transition: { speed: number; focusSpeed?: number };
+    // 悬停时照片是否放大发光
+    hover?: boolean;
+    // 不自动旋转整体，没人操作时转回正面（例如文字要保持可读）
+    upright?: boolean;
+    ambient?: FormationAmbient;
+    placeDeco(p: Particle, index: number, ctx: FormationContext): void;
+    placePhoto(p: Particle, index: number, ctx: FormationContext): void;
+    // 摆放编辑里固定了位置的照片和挂饰；没有实现的阵型照常按程序摆放
+    placePinned?(p: Particle, pin: TreePin): void;
+}
+
+const registry = new Map<string, Formation>();
+
+export function registerFormation(formation: Formation) {
+    registry.set(formation.id, formation);
+}
+
+export function getFormation(id: string): Formation {
+    const f = registry.get(id);
+    if (!f) throw new Error(`Unknown formation "${id}"`);
+    return f;
+}
+
+export function hasFormation(id: string) {
+    return registry.has(id);
+}
+
+export function listFormations() {
+    return Array.from(registry.values());
+}
@@ -0,0 +1,48 @@
+import { Formation } from './formation';
+import { ringPhoto } from './shared';
+
+const ARMS = 3;
+const RADIUS = 20;
+const TILT = 0.45;
+const CENTER_Y = 2;
+
+// 三条旋臂的螺旋星系，盘面朝镜头倾斜，中心是明亮的核球
+export const galaxyFormation: Formation = {
+    id: 'galaxy',
+    label: 'GALAXY',
+    key: '4',
+    showTrunk: false,
+    showStar: false,
+    transition: { speed: 0.06, focusSpeed: 0.15 },
+    ambient: { flicker: true, spin: 0.01 },
+
+    placeDeco(p, index, ctx) {
+        let x: number, y: number, z: number;
+        if (ctx.random() < 0.15) {
+            // 核球
+            const d = Math.sqrt(ctx.random()) * RADIUS * 0.15;
+            const phi = ctx.random() * Math.PI * 2;
+            const theta = Math.acos(2 * ctx.random() - 1);
+            x = Math.sin(theta) * Math.cos(phi) * d;
+            y = Math.cos(theta) * d * 0.6;
+            z = Math.sin(theta) * Math.sin(phi) * d;
+        } else {
+            const arm = index % ARMS;
+            const d = 2 + Math.pow(ctx.random(), 0.7) * RADIUS;
+            // 越往外旋臂越松散
+            const angle = arm * Math.PI * 2 / ARMS + d * 0.32 + (ctx.random() - 0.5) * 0.5 * (1 + d / RADIUS);
+            x = Math.cos(angle) * d;
+            z = Math.sin(angle) * d;
+            y = (ctx.random() - 0.5) * 1.2 * (1.2 - d / RADIUS);
+        }
+        // 绕 X 轴倾斜盘面
+        p.state.target.set(x, y * Math.cos(TILT) - z * Math.sin(TILT) + CENTER_Y, y * Math.sin(TILT) + z * Math.cos(TILT));
+        const s = p.state.type === 'light' ? 1.3 : 0.7;
+        p.state.targetScale.set(s, s, s);
+        p.rotation.set(0, Math.atan2(z, x), 0);
+    },
+
+    placePhoto(p, index, ctx) {
+        ringPhoto(p, index, ctx, RADIUS + 4, CENTER_Y, 0.6);
+    }
+};
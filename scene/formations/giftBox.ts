@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { Formation } from './formation';
+
+const HALF = 6;
+const CENTER_Y = -1;
+// 四个侧面的朝向：+z, +x, -z, -x
+const SIDES = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+
+const _look = new THREE.Vector3();
+
+// 一个系着丝带和蝴蝶结的礼物盒：装饰铺满六个面，灯光沿丝带排列，照片贴在侧面
+export const giftBoxFormation: Formation = {
+    id: 'gift',
+    label: 'GIFT',
+    key: '6',
+    showTrunk: false,
+    showStar: false,
+    transition: { speed: 0.07, focusSpeed: 0.15 },
+    ambient: { flicker: true, spin: 0.003 },
+
+    placeDeco(p, index, ctx) {
+        const r = () => (ctx.random() * 2 - 1) * HALF;
+        const top = CENTER_Y + HALF;
+
+        if (p.state.type === 'light' && ctx.random() < 0.35) {
+            // 蝴蝶结：盒顶上左右两个环
+            const side = ctx.random() < 0.5 ? -1 : 1;
+            const theta = ctx.random() * Math.PI * 2;
+            p.state.target.set(side * (2.6 + 2.4 * Math.cos(theta)), top + 2 + 2 * Math.sin(theta), (ctx.random() - 0.5) * 0.8);
+        } else if (p.state.type === 'light') {
+            // 丝带：绕盒子一圈的两条十字带
+            const t = ctx.random() * 4;
+            const edge = Math.floor(t);
+            const f = (t - edge) * 2 - 1;
+            const ring = [[f * HALF, HALF], [HALF, -f * HALF], [-f * HALF, -HALF], [-HALF, f * HALF]][edge];
+            const w = (ctx.random() - 0.5) * 1.2;
+            if (ctx.random() < 0.5) p.state.target.set(w, CENTER_Y + ring[1], ring[0]);
+            else p.state.target.set(ring[0], CENTER_Y + ring[1], w);
+        } else {
+            const face = Math.floor(ctx.random() * 6);
+            const axis = face >> 1;
+            const sign = face & 1 ? -1 : 1;
+            const v = [r(), r(), r()];
+            v[axis] = sign * (HALF + ctx.random() * 0.3);
+            p.state.target.set(v[0], v[1] + CENTER_Y, v[2]);
+        }
+
+        const t = p.state.target;
+        p.lookAt(_look.set(t.x * 2, (t.y - CENTER_Y) * 2 + CENTER_Y, t.z * 2));
+        const s = 0.8 + ctx.random() * 0.3;
+        p.state.targetScale.set(s, s, s);
+    },
+
+    placePhoto(p, index, ctx) {
+        const [nx, nz] = SIDES[index % 4];
+        // 每个侧面 2×2 个位置，放满后向外再叠一层
+        const k = Math.floor(index / 4);
+        const u = ((k % 2) - 0.5) * HALF;
+        const v = (0.5 - (Math.floor(k / 2) % 2)) * HALF;
+        const out = HALF + 0.4 + Math.floor(k / 4) * 0.6;
+        const x = nx * out + nz * u;
+        const z = nz * out - nx * u;
+        p.state.target.set(x, CENTER_Y + v, z);
+        p.state.targetScale.set(0.55, 0.55, 0.55);
+        p.lookAt(_look.set(x + nx * 5, CENTER_Y + v, z + nz * 5));
+    }
+};
@@ -0,0 +1,39 @@
+import * as THREE from 'three';
+import { CONFIG } from '../../config';
+import { Formation } from './formation';
+
+const _center = new THREE.Vector3(0, 6, 0);
+
+// 立起来正对屏幕的爱心，照片环绕在四周
+export const heartFormation: Formation = {
+    id: 'heart',
+    label: 'HEART',
+    key: '2',
+    showTrunk: false,
+    showStar: false,
+    transition: { speed: 0.08, focusSpeed: 0.15 },
+    // 爱心模式下，由于形状已经是正面的，我们可以稍微减慢旋转
+    // tint 用 getter，设置里改了颜色立即生效
+    ambient: { pulse: true, spin: 0.002, get tint() { return CONFIG.colors.love; } },
+
+    placeDeco(p, index, ctx) {
+        const st = ctx.random() * Math.PI * 2;
+        // 使用心形参数方程：x = 16sin^3(t), y = 13cos(t) - 5cos(2t) - 2cos(3t) - cos(4t)
+        // 转换垂直角度：将计算结果映射到 XY 平面（正对屏幕）
+        const hx = 16 * Math.pow(Math.sin(st), 3) * 0.65;
+        const hy = (13 * Math.cos(st) - 5 * Math.cos(2*st) - 2 * Math.cos(3*st) - Math.cos(4*st)) * 0.65;
+        const hz = (ctx.random() - 0.5) * 4; // Z轴代表厚度
+        // yOffset 设为 6 让心形中心大概位于树的中间高度
+        p.state.target.set(hx, hy + 6, hz);
+        p.state.targetScale.set(1.1, 1.1, 1.1);
+        p.rotation.set(0, 0, 0); // 让装饰物正对
+    },
+
+    placePhoto(p, index, ctx) {
+        const pAngle = (index / ctx.photos.length) * Math.PI * 2;
+        // 照片环绕在立起来的心形周围
+        p.state.target.set(Math.cos(pAngle)*18, 6 + Math.sin(pAngle)*14, Math.sin(pAngle)*5);
+        p.state.targetScale.set(0.65, 0.65, 0.65);
+        p.lookAt(_center);
+    }
+};
@@ -0,0 +1,34 @@
+import { registerFormation } from './formation';
+import { treeFormation } from './tree';
+import { heartFormation } from './heart';
+import { scatterFormation } from './scatter';
+import { focusFormation } from './focus';
+import { galaxyFormation } from './galaxy';
+import { snowflakeFormation } from './snowflake';
+import { giftBoxFormation } from './giftBox';
+import { starFormation } from './star';
+import { textFormation } from './text';
+
+export * from './formation';
+export { textFormation } from './text';
+
+// 内置阵型的 id，应用里需要特别处理的几个
+export const Mode = {
+    TREE: 'tree',
+    SCATTER: 'scatter',
+    FOCUS: 'focus',
+    HEART: 'heart',
+    TEXT: 'text'
+} as const;
+
+[
+    treeFormation,
+    heartFormation,
+    scatterFormation,
+    focusFormation,
+    galaxyFormation,
+    snowflakeFormation,
+    giftBoxFormation,
+    starFormation,
+    textFormation
+].forEach(registerFormation);
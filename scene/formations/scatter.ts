@@ -0,0 +1,20 @@
+import { Formation, FormationContext } from './formation';
+import type { Particle } from '../particle';
+
+function scatter(p: Particle, ctx: FormationContext) {
+    const sDist = 20 + ctx.random() * 15;
+    p.state.target.set((ctx.random()-0.5)*sDist*2.1, (ctx.random()-0.5)*sDist*2.1, (ctx.random()-0.5)*sDist*2.1);
+    p.state.targetScale.set(1, 1, 1);
+}
+
+// 所有粒子炸开成一团星云
+export const scatterFormation: Formation = {
+    id: 'scatter',
+    label: 'SCATTER',
+    key: '3',
+    showTrunk: false,
+    showStar: false,
+    transition: { speed: 0.08, focusSpeed: 0.15 },
+    placeDeco: (p, index, ctx) => scatter(p, ctx),
+    placePhoto: (p, index, ctx) => scatter(p, ctx)
+};
@@ -0,0 +1,15 @@
+import * as THREE from 'three';
+import type { FormationContext } from './formation';
+import type { Particle } from '../particle';
+
+const _look = new THREE.Vector3();
+
+// 照片在 XY 平面上围成一圈并正对镜头，供平面类阵型共用
+export function ringPhoto(p: Particle, index: number, ctx: FormationContext, radius: number, centerY: number, scale: number) {
+    const angle = (index / ctx.photos.length) * Math.PI * 2 + Math.PI / 2;
+    const x = Math.cos(angle) * radius;
+    const y = centerY + Math.sin(angle) * radius;
+    p.state.target.set(x, y, 1.5);
+    p.state.targetScale.set(scale, scale, scale);
+    p.lookAt(_look.set(x, y, 11.5));
+}
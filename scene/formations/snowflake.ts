@@ -0,0 +1,53 @@
+import { Formation } from './formation';
+import { ringPhoto } from './shared';
+
+const RADIUS = 14;
+const CENTER_Y = 2;
+// 每条主臂上分叉的位置（占主臂长度的比例）
+const BRANCHES = [0.35, 0.6, 0.8];
+
+// 六重对称的雪花，正对镜头
+export const snowflakeFormation: Formation = {
+    id: 'snowflake',
+    label: 'SNOWFLAKE',
+    key: '5',
+    showTrunk: false,
+    showStar: false,
+    transition: { speed: 0.07, focusSpeed: 0.15 },
+    ambient: { flicker: true, spin: 0.003 },
+
+    placeDeco(p, index, ctx) {
+        const armAngle = (index % 6) * Math.PI / 3 + Math.PI / 2;
+        const u = ctx.random();
+        let along: number, across: number;
+        if (u < 0.55) {
+            along = ctx.random() * RADIUS;
+            across = 0;
+        } else if (u < 0.9) {
+            const b = BRANCHES[Math.floor(ctx.random() * BRANCHES.length)];
+            const length = RADIUS * (0.45 - b * 0.3);
+            const t = ctx.random() * length;
+            const side = ctx.random() < 0.5 ? -1 : 1;
+            along = b * RADIUS + t * Math.cos(Math.PI / 3);
+            across = side * t * Math.sin(Math.PI / 3);
+        } else {
+            // 中心的小六边形
+            const t = ctx.random() - 0.5;
+            const r = RADIUS * 0.18;
+            along = r * Math.cos(Math.PI / 6);
+            across = t * r;
+        }
+        along += (ctx.random() - 0.5) * 0.3;
+        across += (ctx.random() - 0.5) * 0.3;
+
+        const cos = Math.cos(armAngle);
+        const sin = Math.sin(armAngle);
+        p.state.target.set(along * cos - across * sin, CENTER_Y + along * sin + across * cos, (ctx.random() - 0.5) * 1.2);
+        p.state.targetScale.set(0.9, 0.9, 0.9);
+        p.rotation.set(0, 0, armAngle);
+    },
+
+    placePhoto(p, index, ctx) {
+        ringPhoto(p, index, ctx, RADIUS + 4, CENTER_Y, 0.6);
+    }
+};
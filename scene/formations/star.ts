@@ -0,0 +1,52 @@
+import { CONFIG } from '../../config';
+import { Formation } from './formation';
+import { ringPhoto } from './shared';
+
+const OUTER = 13;
+const INNER = 5.2;
+const CENTER_Y = 3;
+
+// 五角星轮廓的 10 个顶点（外、内交替）
+const VERTS = Array.from({ length: 10 }, (_, k) => {
+    const angle = Math.PI / 2 + k * Math.PI / 5;
+    const r = k % 2 === 0 ? OUTER : INNER;
+    return [Math.cos(angle) * r, Math.sin(angle) * r];
+});
+
+// 饱满的金色五角星：装饰填满星形，灯光勾出轮廓
+export const starFormation: Formation = {
+    id: 'star',
+    label: 'STAR',
+    key: '7',
+    showTrunk: false,
+    showStar: false,
+    transition: { speed: 0.07, focusSpeed: 0.15 },
+    ambient: { flicker: true, spin: 0.003, get tint() { return CONFIG.colors.gold; } },
+
+    placeDeco(p, index, ctx) {
+        const k = Math.floor(ctx.random() * 10);
+        const a = VERTS[k];
+        const b = VERTS[(k + 1) % 10];
+        let x: number, y: number;
+        if (p.state.type === 'light') {
+            const t = ctx.random();
+            x = a[0] + (b[0] - a[0]) * t;
+            y = a[1] + (b[1] - a[1]) * t;
+        } else {
+            // 中心与一条边组成的三角形内均匀取点
+            const r1 = Math.sqrt(ctx.random());
+            const r2 = ctx.random();
+            x = r1 * ((1 - r2) * a[0] + r2 * b[0]);
+            y = r1 * ((1 - r2) * a[1] + r2 * b[1]);
+        }
+        // 越靠近中心越厚
+        const thickness = 3 * (1 - Math.hypot(x, y) / OUTER);
+        p.state.target.set(x, y + CENTER_Y, (ctx.random() - 0.5) * thickness);
+        p.state.targetScale.set(1, 1, 1);
+        p.rotation.set(0, 0, 0);
+    },
+
+    placePhoto(p, index, ctx) {
+        ringPhoto(p, index, ctx, OUTER + 5, CENTER_Y, 0.6);
+    }
+};
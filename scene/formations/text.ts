@@ -0,0 +1,63 @@
+import { CONFIG } from '../../config';
+import { Formation, FormationContext } from './formation';
+import { rasterizeText, TextPoints } from '../textRaster';
+import type { Particle } from '../particle';
+
+const MAX_WIDTH = 36;
+const MAX_HEIGHT = 16;
+const CENTER_Y = 2;
+
+// 用粒子拼出一段文字（CONFIG.text.message），照片绕着文字公转
+export class TextFormation implements Formation {
+    id = 'text';
+    label = 'TEXT';
+    key = '8';
+    showTrunk = false;
+    showStar = false;
+    upright = true;
+    transition = { speed: 0.05, focusSpeed: 0.15 };
+    ambient = { flicker: true, spin: 0, orbit: 0.004 };
+    points: TextPoints | null = null;
+    message = '';
+
+    // 文字变化后重新采样；字体加载完成后调用 invalidate 强制重画
+    shape(): TextPoints {
+        if (!this.points || this.message !== CONFIG.text.message) {
+            this.message = CONFIG.text.message;
+            this.points = rasterizeText(this.message, MAX_WIDTH, MAX_HEIGHT);
+        }
+        return this.points;
+    }
+
+    invalidate() {
+        this.points = null;
+    }
+
+    placeDeco(p: Particle, index: number, ctx: FormationContext) {
+        const shape = this.shape();
+        // 灯光勾勒笔画边缘，其余装饰填满笔画
+        const pts = p.state.type === 'light' && shape.edge.length ? shape.edge : shape.fill;
+        const k = Math.floor(ctx.random() * pts.length / 2) * 2;
+        const x = pts.length ? pts[k] : 0;
+        const y = pts.length ? pts[k + 1] : 0;
+        p.state.target.set(
+            x + (ctx.random() - 0.5) * shape.spacing,
+            CENTER_Y + y + (ctx.random() - 0.5) * shape.spacing,
+            (ctx.random() - 0.5) * CONFIG.text.depth
+        );
+        const s = p.state.type === 'light' ? 0.9 : 0.6 + ctx.random() * 0.25;
+        p.state.targetScale.set(s, s, s);
+        p.rotation.set(ctx.random() * Math.PI, ctx.random() * Math.PI, 0);
+    }
+
+    placePhoto(p: Particle, index: number, ctx: FormationContext) {
+        const radius = Math.max(this.shape().width / 2 + 4, 12);
+        const angle = (index / ctx.photos.length) * Math.PI * 2;
+        p.state.target.set(Math.cos(angle) * radius, CENTER_Y + Math.sin(angle * 3) * 2, Math.sin(angle) * radius);
+        p.state.targetScale.set(0.5, 0.5, 0.5);
+        // 公转时始终正对镜头
+        p.rotation.set(0, 0, 0);
+    }
+}
+
+export const textFormation = new TextFormation();
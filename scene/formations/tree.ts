@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+import { CONFIG } from '../../config';
+import { Formation } from './formation';
+import { pinPosition } from '../placement';
+
+const _look = new THREE.Vector3();
+
+// 固定位置离开树面的距离：照片和螺线上的一样挂在枝叶外侧，挂饰贴着树
+const PHOTO_LIFT = 1.8;
+const ORNAMENT_LIFT = 0.5;
+
+// 圆锥形的圣诞树：装饰沿分层的“扇贝”轮廓分布，照片沿螺线挂在外侧
+export const treeFormation: Formation = {
+    id: 'tree',
+    label: 'TREE',
+    key: '1',
+    showTrunk: true,
+    showStar: true,
+    transition: { speed: 0.08, focusSpeed: 0.15 },
+    ambient: { sway: true, flicker: true },
+
+    placeDeco(p, index, ctx) {
+        const t = index / ctx.deco.length;
+        const yBase = t * CONFIG.tree.height - CONFIG.tree.height * 0.5;
+        const y = yBase + (ctx.random() - 0.5) * 0.5;
+        const hRatio = t;
+        const scallop = 1 + 0.25 * Math.sin(hRatio * Math.PI * CONFIG.tree.tiers);
+        const rBase = CONFIG.tree.baseRadius * (1 - Math.pow(hRatio, 1.1)) * scallop;
+        const angle = p.state.branchAngle!;
+        const r = rBase * (0.05 + ctx.random() * 0.95);
+        p.state.target.set(Math.cos(angle)*r, y, Math.sin(angle)*r);
+        p.lookAt(_look.set(Math.cos(angle)*(r+5), y - 1.2, Math.sin(angle)*(r+5)));
+        const s = 0.8 + ctx.random() * 0.4;
+        p.state.targetScale.set(s, s, s);
+    },
+
+    placePhoto(p, index, ctx) {
+        const progress = index / ctx.photos.length;
+        const y = progress * (CONFIG.tree.height * 0.7) - CONFIG.tree.height * 0.35;
+        const angle = progress * Math.PI * 8; 
+        const hRatio = (y + CONFIG.tree.height * 0.5) / CONFIG.tree.height;
+        const scallop = 1 + 0.15 * Math.sin(hRatio * Math.PI * CONFIG.tree.tiers);
+        const r = CONFIG.tree.baseRadius * (1 - hRatio) * scallop + 1.8;
+        p.state.target.set(Math.cos(angle)*r, y, Math.sin(angle)*r);
+        p.state.targetScale.set(0.35, 0.35, 0.35);
+        p.lookAt(_look.set(Math.cos(angle)*(r+5), y, Math.sin(angle)*(r+5)));
+    },
+
+    placePinned(p, pin) {
+        const photo = p.state.type === 'photo';
+        pinPosition(pin, photo ? PHOTO_LIFT : ORNAMENT_LIFT, p.state.target);
+        const s = photo ? 0.35 : 1;
+        p.state.targetScale.set(s, s, s);
+        p.lookAt(pinPosition(pin, (photo ? PHOTO_LIFT : ORNAMENT_LIFT) + 5, _look));
+    }
+};
@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+import type { Particle } from './particle';
+
+// --- 手的力场：手指方向的射线推开附近的粒子，握拳把它们聚过来，摇晃让挂饰摆动、掉落 ---
+
+// 粒子偏移的弹簧：刚度与阻尼比。挂饰阻尼小，被推或被摇后会来回摆几下
+const SPRING = 30;
+const DAMPING = 0.6;
+const BAUBLE_DAMPING = 0.12;
+// 摇落的挂饰回到原位时用的慢弹簧，临界阻尼，不会冲过头
+const RETURN_SPRING = 8;
+// 推力与聚拢力的大小（半径边缘处为 0）
+const PUSH = 80;
+const GATHER = 60;
+// 摇晃的初速度（单位/秒）与掉落
+const SHAKE_SPEED = 6;
+const DROP_CHANCE = 0.06;
+const GRAVITY = 25;
+const BOUNCE = 0.45;
+const ROLL_FRICTION = 2;
+const BAUBLE_RADIUS = 0.25;
+// 偏移和速度都小于这个值时不再计算
+const REST = 1e-3;
+
+const _toParticle = new THREE.Vector3();
+const _away = new THREE.Vector3();
+const _force = new THREE.Vector3();
+const _end = new THREE.Vector3();
+
+const isBauble = (p: Particle) => p.state.type === 'deco' && (p.slot === 'gold' || p.slot === 'red');
+
+export class HandField {
+    // 从相机穿过手所在屏幕位置的射线，mainGroup 的局部坐标
+    origin = new THREE.Vector3();
+    dir = new THREE.Vector3(0, 0, -1);
+    // 画面向右在局部坐标里的方向，摇晃沿这个方向
+    right = new THREE.Vector3(1, 0, 0);
+    active = false;
+    gather = false;
+    // 这一帧的摇晃强度，所有粒子用过后清零
+    shakeImpulse = 0;
+    // 只有 TREE 阵型下挂饰会被摇落，落到树干底部的高度
+    canDrop = false;
+    floor = -10;
+
+    // 射线和方向都换算到 group 的局部坐标里，粒子的位置就在这个坐标系
+    aim(ray: THREE.Ray, camera: THREE.Camera, group: THREE.Object3D) {
+        group.worldToLocal(this.origin.copy(ray.origin));
+        group.worldToLocal(_end.copy(ray.origin).add(ray.direction));
+        this.dir.subVectors(_end, this.origin).normalize();
+        _end.setFromMatrixColumn(camera.matrixWorld, 0).add(camera.position);
+        group.worldToLocal(_end);
+        group.worldToLocal(this.right.copy(camera.position));
+        this.right.subVectors(_end, this.right).normalize();
+    }
+
+    shake(strength: number) {
+        this.shakeImpulse = Math.max(this.shakeImpulse, strength * CONFIG.field.shake);
+    }
+
+    endFrame() {
+        this.shakeImpulse = 0;
+    }
+
+    /**
+     * Advances the particle's offset from its lerped position by `dt` and
+     * writes the result into `pos`. The offset is a damped spring towards
+     * zero, pushed by the hand, pulled in by a fist and kicked by a shake;
+     * dropped baubles fall, bounce and roll on the floor, then ease back.
+     */
+    apply(p: Particle, pos: THREE.Vector3, dt: number) {
+        const { offset, velocity } = p;
+        const bauble = isBauble(p);
+        if (this.shakeImpulse > 0) this.kick(p, bauble);
+
+        const resting = offset.lengthSq() < REST && velocity.lengthSq() < REST && !p.dropped;
+        if (resting && !this.active) {
+            offset.set(0, 0, 0);
+            velocity.set(0, 0, 0);
+            return;
+        }
+        if (dt <= 0) {
+            pos.add(offset);
+            return;
+        }
+
+        if (p.dropped > 0) {
+            this.fall(p, pos, dt);
+            pos.add(offset);
+            return;
+        }
+
+        // 回原位时用慢而不回弹的弹簧，平时的弹簧略带回弹
+        const k = p.returning ? RETURN_SPRING : SPRING;
+        const zeta = p.returning ? 1 : bauble ? BAUBLE_DAMPING : DAMPING;
+        _force.copy(offset).multiplyScalar(-k).addScaledVector(velocity, -2 * zeta * Math.sqrt(k));
+        if (this.active) this.field(pos, offset);
+        velocity.addScaledVector(_force, dt);
+        offset.addScaledVector(velocity, dt);
+        if (p.returning && offset.lengthSq() < REST) p.returning = false;
+        pos.add(offset);
+    }
+
+    // 粒子到射线的垂直距离决定受力：张开的手推开，握拳拉向射线
+    private field(pos: THREE.Vector3, offset: THREE.Vector3) {
+        const { radius, push, gather } = CONFIG.field;
+        _toParticle.copy(pos).add(offset).sub(this.origin);
+        _away.copy(this.dir).multiplyScalar(-_toParticle.dot(this.dir)).add(_toParticle);
+        const distance = _away.length();
+        if (this.gather) {
+            const reach = radius * 2;
+            if (distance < reach) _force.addScaledVector(_away, -GATHER * gather * (1 - distance / reach));
+        } else if (distance < radius && distance > 1e-4) {
+            const falloff = 1 - distance / radius;
+            _force.addScaledVector(_away, PUSH * push * falloff * falloff / distance);
+        }
+    }
+
+    // 摇晃：所有粒子沿画面左右方向被推一下，挂饰摆得更厉害，少数被摇落
+    private kick(p: Particle, bauble: boolean) {
+        if (p.dropped > 0) return;
+        const speed = SHAKE_SPEED * this.shakeImpulse * (0.5 + Math.random()) * (bauble ? 1.6 : 0.6);
+        p.velocity.addScaledVector(this.right, Math.random() < 0.5 ? -speed : speed);
+        if (bauble && this.canDrop && Math.random() < Math.min(DROP_CHANCE * this.shakeImpulse, 0.25)) {
+            p.dropped = 3 + Math.random() * 2;
+            p.velocity.y += 2;
+        }
+    }
+
+    // 掉落：重力、落地弹跳，在地上滚动减速；时间到了再慢慢回到原位
+    private fall(p: Particle, pos: THREE.Vector3, dt: number) {
+        const { offset, velocity } = p;
+        velocity.y -= GRAVITY * dt;
+        offset.addScaledVector(velocity, dt);
+        const floor = this.floor + BAUBLE_RADIUS;
+        if (pos.y + offset.y < floor) {
+            offset.y = floor - pos.y;
+            velocity.y = Math.abs(velocity.y) * BOUNCE;
+            const friction = Math.max(0, 1 - ROLL_FRICTION * dt);
+            velocity.x *= friction;
+            velocity.z *= friction;
+            p.rotation.x += velocity.z * dt / BAUBLE_RADIUS;
+            p.rotation.z -= velocity.x * dt / BAUBLE_RADIUS;
+        }
+        p.dropped -= dt;
+        if (p.dropped <= 0) {
+            p.dropped = 0;
+            p.returning = true;
+        }
+    }
+}
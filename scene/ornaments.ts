@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+
+// --- 挂饰：编辑模式里从调色板挂到树上的铃铛、拐杖糖、礼物和自定义图片 ---
+
+export type OrnamentKind = 'bell' | 'candy' | 'gift' | 'image';
+
+// 调色板上的内置挂饰；自定义图片另有按钮
+export const ORNAMENT_KINDS: { id: OrnamentKind; label: string }[] = [
+    { id: 'bell', label: 'BELL' },
+    { id: 'candy', label: 'CANDY CANE' },
+    { id: 'gift', label: 'GIFT' }
+];
+
+export const isOrnamentKind = (v: unknown): v is OrnamentKind => v === 'image' || ORNAMENT_KINDS.some(k => k.id === v);
+
+// 自定义图片的最长边（世界单位）
+const IMAGE_SIZE = 1.6;
+
+const css = (c: number) => '#' + c.toString(16).padStart(6, '0');
+
+function canvasTexture(draw: (ctx: CanvasRenderingContext2D, size: number) => void) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 64;
+    draw(canvas.getContext('2d')!, 64);
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+}
+
+function bell() {
+    const profile = [[0.45, 0], [0.42, 0.08], [0.3, 0.2], [0.26, 0.45], [0.2, 0.62], [0.08, 0.7], [0, 0.72]];
+    const geometry = new THREE.LatheGeometry(profile.map(([x, y]) => new THREE.Vector2(x, y)), 24);
+    geometry.translate(0, -0.36, 0);
+    return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: CONFIG.colors.gold, metalness: 0.9, roughness: 0.2, side: THREE.DoubleSide }));
+}
+
+// 直杆加一个弯钩，斜条纹贴图沿管子重复就成了螺旋
+function candyCane() {
+    const points = [new THREE.Vector3(0, -0.5, 0), new THREE.Vector3(0, 0.1, 0)];
+    for (let i = 0; i <= 8; i++) {
+        const a = Math.PI - (i / 8) * Math.PI;
+        points.push(new THREE.Vector3(0.18 + Math.cos(a) * 0.18, 0.25 + Math.sin(a) * 0.18, 0));
+    }
+    const geometry = new THREE.TubeGeometry(new THREE.CatmullRomCurve3(points), 48, 0.07, 8);
+    const map = canvasTexture((ctx, size) => {
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, size, size);
+        ctx.fillStyle = css(CONFIG.colors.red);
+        for (let x = -size; x < size * 2; x += size / 2) {
+            ctx.beginPath();
+            ctx.moveTo(x, 0);
+            ctx.lineTo(x + size / 4, 0);
+            ctx.lineTo(x + size / 4 + size, size);
+            ctx.lineTo(x + size, size);
+            ctx.fill();
+        }
+    });
+    map.wrapS = map.wrapT = THREE.RepeatWrapping;
+    map.repeat.set(6, 1);
+    return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ map, roughness: 0.35 }));
+}
+
+// 每一面都画上十字丝带，拼起来像是缠了一圈
+function gift() {
+    const map = canvasTexture((ctx, size) => {
+        ctx.fillStyle = css(CONFIG.colors.red);
+        ctx.fillRect(0, 0, size, size);
+        ctx.fillStyle = css(CONFIG.colors.gold);
+        ctx.fillRect(size * 0.42, 0, size * 0.16, size);
+        ctx.fillRect(0, size * 0.42, size, size * 0.16);
+    });
+    return new THREE.Mesh(new THREE.BoxGeometry(0.7, 0.6, 0.7), new THREE.MeshStandardMaterial({ map, roughness: 0.6 }));
+}
+
+function picture(texture: THREE.Texture, aspect: number) {
+    const width = aspect >= 1 ? IMAGE_SIZE : IMAGE_SIZE * aspect;
+    const geometry = new THREE.PlaneGeometry(width, width / aspect);
+    return new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ map: texture, transparent: true, alphaTest: 0.05, side: THREE.DoubleSide }));
+}
+
+// image 挂饰需要解码好的图片；其余按类型现画
+export function createOrnamentMesh(kind: OrnamentKind, image?: { texture: THREE.Texture; aspect: number }): THREE.Mesh {
+    if (kind === 'image' && image) return picture(image.texture, image.aspect);
+    if (kind === 'candy') return candyCane();
+    if (kind === 'gift') return gift();
+    return bell();
+}
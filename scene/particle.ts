@@ -0,0 +1,202 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+import { ParticleBatch } from './particleBatch';
+import { damp, perFrame } from './clock';
+import type { Random } from './random';
+import type { Formation } from './formations/formation';
+import type { AudioFrame } from '../services/audioReactive';
+import type { PaletteSlot } from './theme';
+import type { HandField } from './handField';
+
+export interface ParticleState {
+    pos: THREE.Vector3;
+    target: THREE.Vector3;
+    scale: THREE.Vector3;
+    targetScale: THREE.Vector3;
+    type: 'deco' | 'photo' | 'light' | 'ornament';
+    id: number;
+    phase?: number;
+    flickerSpeed?: number;
+    branchAngle?: number; 
+    photoId?: string;
+    ornamentId?: string;
+}
+
+// 逐帧复用的临时对象，避免每个粒子每帧都分配新的 Vector3/Color
+const _pos = new THREE.Vector3();
+const _scale = new THREE.Vector3();
+const _lookMatrix = new THREE.Matrix4();
+const _up = new THREE.Vector3(0, 1, 0);
+const _white = new THREE.Color(0xffffff);
+const _black = new THREE.Color(0x000000);
+const _tint = new THREE.Color();
+const _warmLow = new THREE.Color();
+const _warmHigh = new THREE.Color();
+
+export class Particle {
+    mesh: THREE.Mesh | null = null;
+    batch: ParticleBatch | null = null;
+    index = -1;
+    state: ParticleState;
+    rotation = new THREE.Euler();
+    color: THREE.Color;
+    originalColor: THREE.Color;
+    emissive = new THREE.Color(0x000000);
+    emissiveIntensity = 0;
+    // 调色板里的颜色格，换主题时据此重新取 originalColor
+    slot: PaletteSlot | null = null;
+    // 手的力场造成的偏移和速度，叠加在 lerp 出来的位置上（见 HandField）
+    offset = new THREE.Vector3();
+    velocity = new THREE.Vector3();
+    // 被摇落的挂饰还要在地上待几秒；之后 returning 期间慢慢回到原位
+    dropped = 0;
+    returning = false;
+    // 大于 0 时停在原地，数完这些秒才开始向目标靠近（表演里自上而下的归位）
+    delay = 0;
+
+    // random 决定初始位置、闪烁相位和树枝角度，传入带种子的随机数即可复现同一棵树
+    constructor(view: THREE.Mesh | ParticleBatch, type: ParticleState['type'], id: number, color?: THREE.ColorRepresentation, random: Random = Math.random) {
+        if (view instanceof ParticleBatch) {
+            this.batch = view;
+            this.index = view.add();
+            this.originalColor = new THREE.Color(color ?? 0xffffff);
+        } else {
+            this.mesh = view;
+            (this.mesh as any).particle = this;
+            const mat = Array.isArray(view.material) ? view.material[0] : view.material;
+            this.originalColor = (mat as THREE.MeshStandardMaterial).color ? (mat as THREE.MeshStandardMaterial).color.clone() : new THREE.Color(0xffffff);
+        }
+        this.color = this.originalColor.clone();
+        
+        this.state = {
+            pos: new THREE.Vector3((random() - 0.5) * 60, (random() - 0.5) * 60, (random() - 0.5) * 60),
+            target: new THREE.Vector3(),
+            scale: new THREE.Vector3(1, 1, 1),
+            targetScale: new THREE.Vector3(1, 1, 1),
+            type,
+            id,
+            phase: random() * Math.PI * 2,
+            flickerSpeed: 2 + random() * 5,
+            branchAngle: random() * Math.PI * 2
+        };
+
+        this.render(this.state.pos, this.state.scale);
+    }
+
+    // 画质调低时，超出批次绘制数量的实例不再更新
+    get active() {
+        return this.batch ? this.index < this.batch.mesh.count : this.mesh!.visible;
+    }
+
+    // 让粒子的 +Z 朝向某个点（与 Object3D.lookAt 对普通物体的行为一致）
+    lookAt(point: THREE.Vector3) {
+        _lookMatrix.lookAt(point, this.state.target, _up);
+        this.rotation.setFromRotationMatrix(_lookMatrix);
+    }
+
+    // audio 为 null 时（没有音乐在播放）闪烁、脉动都退回按时间驱动
+    update(dt: number, formation: Formation, globalTime: number, isFocused: boolean, isHovered: boolean, audio: AudioFrame | null = null, field: HandField | null = null) {
+        const ambient = formation.ambient ?? {};
+        const canHover = isHovered && formation.hover !== false;
+        const lerpFactor = damp(isFocused ? (formation.transition.focusSpeed ?? formation.transition.speed) : formation.transition.speed, dt);
+        const hoverMultiplier = canHover ? CONFIG.interaction.hoverScaleMultiplier : 1.0;
+        _scale.copy(this.state.targetScale).multiplyScalar(hoverMultiplier);
+        
+        if (ambient.orbit && this.state.type === 'photo' && !isFocused) {
+            this.state.target.applyAxisAngle(_up, perFrame(ambient.orbit, dt));
+        }
+        if (this.delay > 0) {
+            this.delay -= dt;
+        } else {
+            this.state.pos.lerp(this.state.target, lerpFactor);
+            this.state.scale.lerp(_scale, lerpFactor);
+        }
+        
+        _pos.copy(this.state.pos);
+        _scale.copy(this.state.scale);
+
+        // --- Subtle Ambient Swaying ---
+        if (ambient.sway && !isFocused) {
+            const ambientSway = Math.sin(globalTime * CONFIG.ambient.swaySpeed + this.state.phase!) * CONFIG.ambient.swayAmount;
+            const lateralSway = Math.cos(globalTime * CONFIG.ambient.swaySpeed * 0.7 + this.state.phase!) * (CONFIG.ambient.swayAmount * 0.5);
+            _pos.y += ambientSway;
+            _pos.x += lateralSway;
+            
+            if (this.state.type === 'deco') {
+                this.rotation.z += perFrame(Math.sin(globalTime * 0.5 + this.state.phase!) * 0.005, dt);
+                this.rotation.x += perFrame(Math.cos(globalTime * 0.4 + this.state.phase!) * 0.003, dt);
+            }
+        }
+
+        // 手的推力、摇晃和掉落叠加在 lerp 之上，照片不受影响
+        if (field && this.state.type !== 'photo') field.apply(this, _pos, dt);
+
+        if (this.state.type === 'light' && ambient.flicker) {
+            const wave = Math.sin(globalTime * this.state.flickerSpeed! + this.state.phase!);
+            const flicker = audio ? 0.7 + audio.beat * 0.6 + wave * 0.1 : 0.85 + wave * 0.3;
+            _scale.multiplyScalar(flicker);
+        }
+
+        if (isFocused) {
+            const k = damp(0.15, dt);
+            this.rotation.y = THREE.MathUtils.lerp(this.rotation.y, 0, k);
+            this.rotation.x = THREE.MathUtils.lerp(this.rotation.x, 0, k);
+            this.rotation.z = THREE.MathUtils.lerp(this.rotation.z, 0, k);
+        } else {
+            if (ambient.pulse) {
+                const beat = audio ? 1 + audio.beat * 0.12 : 1 + Math.sin(globalTime * 5) * 0.05;
+                _scale.multiplyScalar(beat);
+            }
+            this.rotation.y += perFrame(ambient.spin ?? 0.005, dt);
+        }
+
+        const fast = damp(0.1, dt);
+        const slow = damp(0.05, dt);
+        if (canHover) {
+            this.emissive.lerp(_tint.set(CONFIG.colors.hoverGlow), fast);
+            this.emissiveIntensity = THREE.MathUtils.lerp(this.emissiveIntensity, 1.2, fast);
+            this.color.lerp(_white, fast);
+        } else if (ambient.tint !== undefined && this.state.type !== 'photo') {
+            _tint.set(ambient.tint);
+            this.color.lerp(_tint, slow);
+            this.emissive.lerp(_tint, slow);
+            this.emissiveIntensity = 0.8;
+        } else if (this.state.type === 'light') {
+            const shift = (Math.sin(globalTime * CONFIG.ambient.colorShiftSpeed + this.state.phase!) + 1) / 2;
+            _warmLow.set(CONFIG.colors.lightLow);
+            _warmHigh.set(CONFIG.colors.lightHigh);
+            this.emissive.copy(_warmLow).lerp(_warmHigh, shift);
+            this.color.lerp(this.originalColor, slow);
+            
+            const f = 0.5 + Math.sin(globalTime * 3 + this.state.phase!) * 0.5;
+            this.emissiveIntensity = audio ? 0.8 + audio.level * 1.2 + audio.beat * (1.5 + f) : 1.2 + f * 1.8;
+        } else {
+            this.color.lerp(this.originalColor, slow);
+            this.emissive.lerp(_black, fast);
+            this.emissiveIntensity = THREE.MathUtils.lerp(this.emissiveIntensity, 0, fast);
+        }
+
+        this.render(_pos, _scale);
+    }
+
+    // 写入实例缓冲区，或者（照片）直接写到独立的 mesh 上
+    render(position: THREE.Vector3, scale: THREE.Vector3) {
+        if (this.batch) {
+            this.batch.write(this.index, position, this.rotation, scale, this.color, this.emissive, this.emissiveIntensity);
+            return;
+        }
+        const mesh = this.mesh!;
+        mesh.position.copy(position);
+        mesh.scale.copy(scale);
+        mesh.rotation.copy(this.rotation);
+
+        const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        for (const m of materials) {
+            const mat = m as THREE.MeshStandardMaterial;
+            if (!mat.isMeshStandardMaterial) continue;
+            mat.color.copy(this.color);
+            mat.emissive.copy(this.emissive);
+            mat.emissiveIntensity = this.emissiveIntensity;
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+
+const _matrix = new THREE.Matrix4();
+const _quat = new THREE.Quaternion();
+
+// 让标准材质额外读取每个实例的自发光颜色（rgb 已乘以强度）
+function patchInstanceEmissive(material: THREE.MeshStandardMaterial) {
+    material.onBeforeCompile = (shader: any) => {
+        shader.vertexShader = shader.vertexShader
+            .replace('#include <common>', '#include <common>\nattribute vec3 instanceEmissive;\nvarying vec3 vInstanceEmissive;')
+            .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceEmissive = instanceEmissive;');
+        shader.fragmentShader = shader.fragmentShader
+            .replace('#include <common>', '#include <common>\nvarying vec3 vInstanceEmissive;')
+            .replace('vec3 totalEmissiveRadiance = emissive;', 'vec3 totalEmissiveRadiance = emissive + vInstanceEmissive;');
+    };
+}
+
+/**
+ * One draw call for every particle sharing a geometry and material.
+ * Position/rotation/scale go through the instance matrix, base colour through
+ * instanceColor and the glow through a custom instanceEmissive attribute.
+ */
+export class ParticleBatch {
+    mesh: THREE.InstancedMesh;
+    emissive: THREE.InstancedBufferAttribute;
+    count = 0;
+
+    constructor(geometry: THREE.BufferGeometry, material: THREE.MeshStandardMaterial, capacity: number) {
+        // 几何体可能被多个批次共用，instanceEmissive 属性必须各自独立
+        geometry = geometry.clone();
+        material.color.set(0xffffff);
+        material.emissive.set(0x000000);
+        patchInstanceEmissive(material);
+
+        this.mesh = new THREE.InstancedMesh(geometry, material, Math.max(capacity, 1));
+        this.mesh.count = 0;
+        this.mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.mesh.setColorAt(0, new THREE.Color(0xffffff));
+        this.mesh.instanceColor!.setUsage(THREE.DynamicDrawUsage);
+        // 实例会在整个场景里移动，包围球没有意义
+        this.mesh.frustumCulled = false;
+        // 射线只需要命中照片，跳过几千个实例的遍历
+        this.mesh.raycast = () => {};
+
+        this.emissive = new THREE.InstancedBufferAttribute(new Float32Array(Math.max(capacity, 1) * 3), 3);
+        this.emissive.setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute('instanceEmissive', this.emissive);
+    }
+
+    add(): number {
+        const index = this.count++;
+        this.mesh.count = this.count;
+        return index;
+    }
+
+    write(index: number, position: THREE.Vector3, rotation: THREE.Euler, scale: THREE.Vector3, color: THREE.Color, emissive: THREE.Color, emissiveIntensity: number) {
+        _matrix.compose(position, _quat.setFromEuler(rotation), scale);
+        this.mesh.setMatrixAt(index, _matrix);
+        this.mesh.setColorAt(index, color);
+        this.emissive.setXYZ(index, emissive.r * emissiveIntensity, emissive.g * emissiveIntensity, emissive.b * emissiveIntensity);
+    }
+
+    // 只绘制前 fraction 比例的实例；实例顺序在创建时已打乱，截掉的部分均匀分布
+    setActive(fraction: number) {
+        this.mesh.count = Math.ceil(this.count * fraction);
+    }
+
+    commit() {
+        this.mesh.instanceMatrix.needsUpdate = true;
+        if (this.mesh.instanceColor) this.mesh.instanceColor.needsUpdate = true;
+        this.emissive.needsUpdate = true;
+    }
+}
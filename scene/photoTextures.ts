@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { PhotoDecoder } from '../services/photoDecoder';
+
+// --- 照片纹理：树上用小图，聚焦时按需换大图，总显存不超过预算 ---
+
+export interface TextureSettings {
+    // 树上纹理的最长边（像素）
+    treeSize: number;
+    // 聚焦时大图的最长边
+    focusSize: number;
+    budgetMB: number;
+}
+
+// 降采样时树上纹理最小缩到这么大，再小就糊了
+const MIN_TREE_SIZE = 128;
+
+interface PhotoTextureEntry {
+    id: string;
+    blob: Blob;
+    aspect: number;
+    tree: THREE.Texture;
+    treeSize: number;
+    // 树上纹理的像素尺寸；降采样是异步的，还没完成时这里已经是缩小后的尺寸，显存按它来算
+    treeWidth: number;
+    treeHeight: number;
+    focus: THREE.Texture | null;
+    focusLoading: boolean;
+    lastUsed: number;
+    // 每次降采样加一，用来丢弃过时的异步结果
+    version: number;
+}
+
+// RGBA 加上一整套 mipmap，大约是原图的 4/3
+const bytesFor = (width: number, height: number) => width * height * 4 * 4 / 3;
+const bytesOf = (tex: THREE.Texture | null) => tex ? bytesFor(tex.image.width, tex.image.height) : 0;
+
+function makeTexture(bitmap: ImageBitmap) {
+    const tex = new THREE.Texture(bitmap);
+    // 位图在解码时已经上下翻转过（见 scalePhoto）
+    tex.flipY = false;
+    tex.colorSpace = THREE.SRGBColorSpace;
+    tex.needsUpdate = true;
+    return tex;
+}
+
+function disposeTexture(tex: THREE.Texture) {
+    tex.dispose();
+    (tex.image as ImageBitmap).close?.();
+}
+
+export class PhotoTextures {
+    settings: TextureSettings;
+    decoder = new PhotoDecoder();
+    entries = new Map<string, PhotoTextureEntry>();
+    focused: string | null = null;
+    // 照片应当显示的纹理变了（大图加载完成、被回收或降采样）
+    onChange: (id: string, texture: THREE.Texture) => void;
+    useCounter = 0;
+
+    constructor(settings: TextureSettings, onChange: (id: string, texture: THREE.Texture) => void) {
+        this.settings = settings;
+        this.onChange = onChange;
+    }
+
+    get usedBytes() {
+        let total = 0;
+        this.entries.forEach(e => total += bytesFor(e.treeWidth, e.treeHeight) + bytesOf(e.focus));
+        return total;
+    }
+
+    // 解码出树上用的小图；同一个 id 再次加载会替换旧纹理
+    async load(id: string, blob: Blob): Promise<{ texture: THREE.Texture; aspect: number }> {
+        const photo = await this.decoder.decode(blob, this.settings.treeSize);
+        this.release(id);
+        const entry: PhotoTextureEntry = {
+            id, blob,
+            aspect: photo.width / photo.height,
+            tree: makeTexture(photo.bitmap),
+            treeSize: this.settings.treeSize,
+            treeWidth: photo.bitmap.width,
+            treeHeight: photo.bitmap.height,
+            focus: null,
+            focusLoading: false,
+            lastUsed: ++this.useCounter,
+            version: 0
+        };
+        this.entries.set(id, entry);
+        this.enforce();
+        return { texture: entry.tree, aspect: entry.aspect };
+    }
+
+    release(id: string) {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+        disposeTexture(entry.tree);
+        if (entry.focus) disposeTexture(entry.focus);
+        this.entries.delete(id);
+    }
+
+    // 聚焦时换上大图；离开后大图先留着，预算不够时再回收
+    async focus(id: string | null) {
+        this.focused = id;
+        const entry = id ? this.entries.get(id) : undefined;
+        if (!entry) return;
+        entry.lastUsed = ++this.useCounter;
+        if (entry.focus || entry.focusLoading) return;
+
+        entry.focusLoading = true;
+        try {
+            const photo = await this.decoder.decode(entry.blob, this.settings.focusSize);
+            if (this.entries.get(entry.id) !== entry) {
+                photo.bitmap.close();
+                return;
+            }
+            entry.focus = makeTexture(photo.bitmap);
+            this.onChange(entry.id, entry.focus);
+            this.enforce();
+        } catch(e) {
+            console.warn('Focus Texture Failed', e);
+        } finally {
+            entry.focusLoading = false;
+        }
+    }
+
+    /**
+     * Brings GPU memory back under the budget: first drops high-resolution
+     * textures that are not on screen in FOCUS, least recently viewed first,
+     * then halves the largest tree textures until the total fits.
+     */
+    enforce() {
+        const budget = this.settings.budgetMB * 1024 * 1024;
+        let used = this.usedBytes;
+        if (used <= budget) return;
+        const lru = Array.from(this.entries.values()).sort((a, b) => a.lastUsed - b.lastUsed);
+
+        for (const entry of lru) {
+            if (used <= budget) return;
+            if (!entry.focus || entry.id === this.focused) continue;
+            used -= bytesOf(entry.focus);
+            disposeTexture(entry.focus);
+            entry.focus = null;
+            this.onChange(entry.id, entry.tree);
+        }
+
+        while (used > budget) {
+            const entry = lru.filter(e => e.treeSize > MIN_TREE_SIZE).sort((a, b) => b.treeSize - a.treeSize)[0];
+            if (!entry) {
+                console.warn(`Photo textures use ${Math.round(used / 1048576)}MB, over the ${this.settings.budgetMB}MB budget even at minimum size`);
+                return;
+            }
+            entry.treeSize /= 2;
+            const { treeWidth: width, treeHeight: height } = entry;
+            const scale = Math.min(1, entry.treeSize / Math.max(width, height));
+            if (scale === 1) continue;
+            entry.treeWidth = Math.max(1, Math.round(width * scale));
+            entry.treeHeight = Math.max(1, Math.round(height * scale));
+            used -= bytesFor(width, height) - bytesFor(entry.treeWidth, entry.treeHeight);
+            this.downsample(entry, entry.treeWidth, entry.treeHeight);
+        }
+    }
+
+    // 直接从现有的小图缩放，不必重新解码原图
+    private async downsample(entry: PhotoTextureEntry, width: number, height: number) {
+        const version = ++entry.version;
+        try {
+            const bitmap = await createImageBitmap(entry.tree.image, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+            if (this.entries.get(entry.id) !== entry || entry.version !== version) {
+                bitmap.close();
+                return;
+            }
+            const old = entry.tree;
+            entry.tree = makeTexture(bitmap);
+            if (!entry.focus) this.onChange(entry.id, entry.tree);
+            disposeTexture(old);
+        } catch(e) {
+            console.warn('Texture Downsample Failed', e);
+            // 没缩成，尺寸记回现有的纹理
+            if (entry.version === version) {
+                entry.treeWidth = entry.tree.image.width;
+                entry.treeHeight = entry.tree.image.height;
+            }
+        }
+    }
+
+    dispose() {
+        Array.from(this.entries.keys()).forEach(id => this.release(id));
+        this.decoder.dispose();
+    }
+}
@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+
+// --- 摆放编辑：固定在树上的位置按树冠高度的比例和绕树的角度记录，树的尺寸变了也还挂在同一处 ---
+
+export interface TreePin {
+    // 0 是树冠底部，1 是树顶
+    height: number;
+    // 绕 y 轴的角度，0 在 +x 方向
+    angle: number;
+}
+
+// 树顶留给星星
+const MAX_HEIGHT = 0.95;
+// 射线离树面这么近就算抓到了树
+const REACH = 1;
+const MARCH_STEP = 0.25;
+const MARCH_LENGTH = 120;
+
+// 树冠在某个高度比例上的外轮廓半径，与 TREE 阵型里照片螺线的扇贝轮廓一致
+export function crownRadius(height: number) {
+    const scallop = 1 + 0.15 * Math.sin(height * Math.PI * CONFIG.tree.tiers);
+    return CONFIG.tree.baseRadius * (1 - height) * scallop;
+}
+
+// lift 是离开树面的距离：照片挂在枝叶外侧，挂饰贴近一些
+export function pinPosition(pin: TreePin, lift: number, out: THREE.Vector3) {
+    const r = crownRadius(pin.height) + lift;
+    return out.set(Math.cos(pin.angle) * r, (pin.height - 0.5) * CONFIG.tree.height, Math.sin(pin.angle) * r);
+}
+
+export function pinFromPoint(point: THREE.Vector3): TreePin {
+    return {
+        height: THREE.MathUtils.clamp(point.y / CONFIG.tree.height + 0.5, 0, MAX_HEIGHT),
+        angle: Math.atan2(point.z, point.x)
+    };
+}
+
+/**
+ * Finds where a ray (in the tree's local space) first meets the crown, by
+ * stepping along it. A ray that misses the tree snaps to the point where it
+ * passes closest to the trunk, so dragging past the edge slides the item
+ * round to the side instead of dropping it.
+ */
+export function hitTree(ray: THREE.Ray, out: THREE.Vector3): THREE.Vector3 {
+    const half = CONFIG.tree.height / 2;
+    for (let s = 0; s < MARCH_LENGTH; s += MARCH_STEP) {
+        ray.at(s, out);
+        if (out.y < -half || out.y > half) continue;
+        if (Math.hypot(out.x, out.z) <= crownRadius(out.y / CONFIG.tree.height + 0.5) + REACH) return out;
+    }
+    const { origin: o, direction: d } = ray;
+    const flat = d.x * d.x + d.z * d.z;
+    return ray.at(flat > 1e-6 ? Math.max(0, -(o.x * d.x + o.z * d.z) / flat) : 0, out);
+}
+
+// 读回保存的位置；不是合法的位置时返回 null
+export function parsePin(raw: unknown): TreePin | null {
+    const pin = raw as Partial<TreePin> | null;
+    const ok = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+    if (!pin || typeof pin !== 'object' || !ok(pin.height) || !ok(pin.angle)) return null;
+    return { height: THREE.MathUtils.clamp(pin.height, 0, MAX_HEIGHT), angle: pin.angle };
+}
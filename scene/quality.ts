@@ -0,0 +1,94 @@
+// --- 画质自适应：按实测帧间隔在几档画质之间升降 ---
+
+export interface QualityTier {
+    label: string;
+    // 像素比上限，同时不超过设备像素比
+    pixelRatio: number;
+    // 泛光缓冲相对画布的分辨率，0 表示关闭泛光
+    bloom: number;
+    // 树上粒子与雪花实际更新和绘制的比例
+    particles: number;
+    snow: number;
+    // 手势识别每秒运行的次数
+    handRate: number;
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+    { label: 'ULTRA', pixelRatio: 2, bloom: 1, particles: 1, snow: 1, handRate: 30 },
+    { label: 'HIGH', pixelRatio: 1.5, bloom: 0.75, particles: 1, snow: 1, handRate: 30 },
+    { label: 'MEDIUM', pixelRatio: 1, bloom: 0.5, particles: 0.75, snow: 0.6, handRate: 20 },
+    { label: 'LOW', pixelRatio: 0.85, bloom: 0.5, particles: 0.5, snow: 0.3, handRate: 15 },
+    { label: 'MINIMAL', pixelRatio: 0.75, bloom: 0, particles: 0.35, snow: 0, handRate: 10 }
+];
+
+// 平均帧间隔超过这个值（约 45fps）持续一阵就降档，稳定在约 57fps 以内一阵才升档
+const DOWNGRADE_MS = 1000 / 45;
+const UPGRADE_MS = 1000 / 57;
+const DOWNGRADE_AFTER = 2;
+const UPGRADE_AFTER = 5;
+const MAX_UPGRADE_AFTER = 60;
+// 切标签页、GC 之类的单帧长卡顿不计入
+const MAX_SAMPLE = 0.1;
+
+export class QualityGovernor {
+    tier: number;
+    auto = true;
+    // 帧间隔的滑动平均（毫秒）
+    frameMs = 1000 / 60;
+    slowFor = 0;
+    fastFor = 0;
+    sinceChange = 0;
+    upgraded = false;
+    // 升档后很快又撑不住时加倍，避免在两档之间来回跳
+    upgradeAfter = UPGRADE_AFTER;
+
+    constructor(tier = 0) {
+        this.tier = Math.min(Math.max(tier, 0), QUALITY_TIERS.length - 1);
+    }
+
+    get current(): QualityTier {
+        return QUALITY_TIERS[this.tier];
+    }
+
+    get fps() {
+        return 1000 / this.frameMs;
+    }
+
+    /**
+     * Feeds one frame's real duration. Returns true when the tier changed so
+     * the caller can re-apply quality. Stepping down needs a sustained slow
+     * average; stepping up needs a longer stretch at full frame rate, and
+     * that stretch doubles whenever an upgrade is immediately undone.
+     */
+    update(realDt: number): boolean {
+        if (realDt <= 0 || realDt >= MAX_SAMPLE) return false;
+        this.frameMs += (realDt * 1000 - this.frameMs) * 0.05;
+        this.sinceChange += realDt;
+        if (!this.auto) return false;
+
+        this.slowFor = this.frameMs > DOWNGRADE_MS ? this.slowFor + realDt : 0;
+        this.fastFor = this.frameMs < UPGRADE_MS ? this.fastFor + realDt : 0;
+
+        if (this.slowFor > DOWNGRADE_AFTER && this.tier < QUALITY_TIERS.length - 1) {
+            if (this.upgraded && this.sinceChange < this.upgradeAfter) {
+                this.upgradeAfter = Math.min(this.upgradeAfter * 2, MAX_UPGRADE_AFTER);
+            }
+            return this.set(this.tier + 1);
+        }
+        if (this.fastFor > this.upgradeAfter && this.tier > 0) {
+            return this.set(this.tier - 1);
+        }
+        return false;
+    }
+
+    set(tier: number): boolean {
+        tier = Math.min(Math.max(tier, 0), QUALITY_TIERS.length - 1);
+        if (tier === this.tier) return false;
+        this.upgraded = tier < this.tier;
+        this.tier = tier;
+        this.slowFor = this.fastFor = this.sinceChange = 0;
+        // 换档后的前几帧还带着旧档的帧时，从目标帧率重新开始平均
+        this.frameMs = 1000 / 60;
+        return true;
+    }
+}
@@ -0,0 +1,31 @@
+// --- 可复现的伪随机数：同一个种子总是排出同一棵树 ---
+
+export type Random = () => number;
+
+// mulberry32：32 位状态，足够快，分布对布局来说也足够均匀
+export function createRandom(seed: number): Random {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// 把种子和若干键（阵型 id、粒子 id、照片 id）混合成新的种子（FNV-1a）
+export function hashSeed(seed: number, ...keys: (string | number)[]): number {
+    let h = (0x811c9dc5 ^ seed) >>> 0;
+    for (const key of keys) {
+        const s = String(key);
+        for (let i = 0; i < s.length; i++) {
+            h ^= s.charCodeAt(i);
+            h = Math.imul(h, 0x01000193);
+        }
+        // 分隔符，避免 ('ab', 'c') 与 ('a', 'bc') 撞车
+        h ^= 0xff;
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
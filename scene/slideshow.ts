@@ -0,0 +1,81 @@
+import type { Particle } from './particle';
+
+// --- 幻灯片：按顺序轮流聚焦每张照片 ---
+
+export type SlideTransition = 'glide' | 'zoom' | 'spin' | 'tree';
+
+export const SLIDE_TRANSITIONS: { id: SlideTransition; label: string }[] = [
+    { id: 'glide', label: 'GLIDE' },
+    { id: 'zoom', label: 'ZOOM' },
+    { id: 'spin', label: 'SPIN' },
+    { id: 'tree', label: 'VIA TREE' }
+];
+
+// 'tree' 过渡在两张照片之间回到原阵型停留的秒数
+const TREE_BREAK = 1.6;
+
+export type SlideStep = 'leave' | 'next';
+
+export class Slideshow {
+    active = false;
+    paused = false;
+    // 由空闲计时自动开始
+    auto = false;
+    current: Particle | null = null;
+    elapsed = 0;
+    // 'tree' 过渡时，正停在两张照片之间
+    between = false;
+
+    start(auto: boolean) {
+        this.active = true;
+        this.auto = auto;
+        this.paused = false;
+        this.between = false;
+        this.elapsed = 0;
+    }
+
+    stop() {
+        this.active = false;
+        this.current = null;
+    }
+
+    restart() {
+        this.elapsed = 0;
+        this.between = false;
+    }
+
+    progress(interval: number) {
+        return this.between ? 1 : Math.min(this.elapsed / interval, 1);
+    }
+
+    // 推进计时：到点时返回 'next'；'tree' 过渡会先返回 'leave'，停一会儿再返回 'next'
+    update(dt: number, interval: number, transition: SlideTransition): SlideStep | null {
+        if (!this.active || this.paused) return null;
+        this.elapsed += dt;
+        if (this.between) {
+            if (this.elapsed < TREE_BREAK) return null;
+            this.restart();
+            return 'next';
+        }
+        if (this.elapsed < interval) return null;
+        this.elapsed = 0;
+        if (transition === 'tree') {
+            this.between = true;
+            return 'leave';
+        }
+        return 'next';
+    }
+}
+
+// 在照片被聚焦之后调用，改写它的起始状态，让聚焦的插值走出不同的入场效果
+export function applyTransition(p: Particle, transition: SlideTransition) {
+    switch (transition) {
+        case 'zoom':
+            p.state.pos.copy(p.state.target);
+            p.state.scale.set(0.01, 0.01, 0.01);
+            break;
+        case 'spin':
+            p.rotation.set(0, Math.PI * 2, 0);
+            break;
+    }
+}
@@ -0,0 +1,159 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+import type { Particle } from './particle';
+import type { Random } from './random';
+
+// --- 积雪：TREE 模式下落在树梢外侧和树干底部，阵型散开时被抖落 ---
+
+interface CoverAnchor {
+    // 贴在某个装饰粒子上；地面上的积雪没有 particle，位置固定在 base
+    particle: Particle | null;
+    base: THREE.Vector3;
+    // 积雪量超过 rank 后这块雪才开始出现
+    rank: number;
+    size: number;
+    // 纵向压扁的比例
+    flat: number;
+}
+
+// 抖落持续的秒数与重力
+const SHED_TIME = 1.6;
+const GRAVITY = 25;
+
+const _matrix = new THREE.Matrix4();
+const _quat = new THREE.Quaternion();
+const _pos = new THREE.Vector3();
+const _scale = new THREE.Vector3();
+
+export class SnowCover {
+    mesh: THREE.InstancedMesh;
+    capacity: number;
+    anchors: CoverAnchor[] = [];
+    // 0–1 的积雪量
+    level = 0;
+    shedLeft = 0;
+    shedPos: THREE.Vector3[] = [];
+    shedVel: THREE.Vector3[] = [];
+
+    constructor(capacity = 1400) {
+        this.capacity = capacity;
+        const material = new THREE.MeshStandardMaterial({ color: CONFIG.colors.snow, roughness: 0.9, metalness: 0, emissive: CONFIG.colors.snow, emissiveIntensity: 0.15 });
+        this.mesh = new THREE.InstancedMesh(new THREE.SphereGeometry(1, 8, 6), material, capacity);
+        this.mesh.count = 0;
+        this.mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.mesh.frustumCulled = false;
+        this.mesh.raycast = () => {};
+    }
+
+    get material() {
+        return this.mesh.material as THREE.MeshStandardMaterial;
+    }
+
+    /**
+     * Picks where snow can land: decorations on the outer, upward-facing
+     * shell of the tree (judged from their TREE targets, so call this while
+     * TREE is the active formation) plus a mound around the trunk base.
+     */
+    attach(deco: Particle[], random: Random) {
+        const { height, baseRadius, trunkHeight, trunkRadius } = CONFIG.tree;
+        const shell = deco.filter(p => {
+            if (p.state.type !== 'deco') return false;
+            const t = p.state.target;
+            const h = THREE.MathUtils.clamp((t.y + height / 2) / height, 0, 1);
+            const cone = baseRadius * (1 - Math.pow(h, 1.1)) * 1.25 + 0.01;
+            return Math.hypot(t.x, t.z) > cone * 0.55;
+        });
+        const onTree = Math.min(shell.length, Math.floor(this.capacity * 0.75));
+        // 部分洗牌取前 onTree 个
+        for (let i = 0; i < onTree; i++) {
+            const j = i + Math.floor(random() * (shell.length - i));
+            [shell[i], shell[j]] = [shell[j], shell[i]];
+        }
+        this.anchors = shell.slice(0, onTree).map(particle => ({
+            particle,
+            base: new THREE.Vector3(0, 0.1, 0),
+            rank: random(),
+            size: 0.12 + random() * 0.08,
+            flat: 0.5
+        }));
+
+        const groundY = -height / 2 - trunkHeight + 1.5;
+        for (let i = this.anchors.length; i < this.capacity; i++) {
+            const spread = Math.pow(random(), 1.5);
+            const angle = random() * Math.PI * 2;
+            const r = trunkRadius * 1.1 + spread * 3.5;
+            this.anchors.push({
+                particle: null,
+                base: new THREE.Vector3(Math.cos(angle) * r, groundY, Math.sin(angle) * r),
+                // 靠近树干的先积起来
+                rank: spread * 0.7 + random() * 0.3,
+                size: 0.3 + random() * 0.3,
+                flat: 0.3
+            });
+        }
+        this.mesh.count = this.anchors.length;
+    }
+
+    // 树重建后粒子都换了，下次积雪时重新挑位置
+    reset() {
+        this.anchors = [];
+        this.level = 0;
+        this.shedLeft = 0;
+        this.mesh.count = 0;
+    }
+
+    // 让现有的积雪带着向外的初速度落下；没有积雪时什么也不做
+    shed(random: Random = Math.random) {
+        if (this.level <= 0 || this.shedLeft > 0 || !this.anchors.length) return;
+        this.shedLeft = SHED_TIME;
+        this.shedPos = this.anchors.map(a => this.anchorPosition(a, new THREE.Vector3()));
+        this.shedVel = this.shedPos.map(p => {
+            const out = new THREE.Vector3(p.x, 0, p.z).normalize().multiplyScalar(2 + random() * 3);
+            return out.setY(1 + random() * 3);
+        });
+    }
+
+    get shedding() {
+        return this.shedLeft > 0;
+    }
+
+    update(dt: number, accumulating: boolean, rate: number) {
+        if (this.shedLeft > 0) {
+            this.shedLeft -= dt;
+            if (this.shedLeft <= 0) {
+                this.reset();
+                return;
+            }
+        } else if (accumulating) {
+            this.level = Math.min(1, this.level + rate * dt);
+        }
+        this.mesh.visible = this.level > 0 && this.anchors.length > 0;
+        if (!this.mesh.visible) return;
+
+        const fade = this.shedLeft > 0 ? this.shedLeft / SHED_TIME : 1;
+        this.anchors.forEach((a, i) => {
+            const amount = THREE.MathUtils.clamp((this.level - a.rank * 0.9) * 5, 0, 1) * fade;
+            if (this.shedLeft > 0) {
+                this.shedVel[i].y -= GRAVITY * dt;
+                _pos.copy(this.shedPos[i].addScaledVector(this.shedVel[i], dt));
+            } else {
+                this.anchorPosition(a, _pos);
+            }
+            const hidden = a.particle !== null && !a.particle.active;
+            const s = hidden ? 0 : a.size * amount;
+            _scale.set(s, s * a.flat, s);
+            _matrix.compose(_pos, _quat, _scale);
+            this.mesh.setMatrixAt(i, _matrix);
+        });
+        this.mesh.instanceMatrix.needsUpdate = true;
+    }
+
+    private anchorPosition(a: CoverAnchor, out: THREE.Vector3) {
+        return a.particle ? out.copy(a.particle.state.pos).add(a.base) : out.copy(a.base);
+    }
+
+    dispose() {
+        this.mesh.geometry.dispose();
+        this.material.dispose();
+    }
+}
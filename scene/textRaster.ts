@@ -0,0 +1,71 @@
+// --- 把文字画到离屏 canvas 上，再把笔画像素采样成点，供文字阵型使用 ---
+
+export const TEXT_FONT = `700 120px 'Noto Serif SC', 'Cinzel', serif`;
+const LINE_HEIGHT = 1.25;
+// 采样点数量上限，太多会让每次布局都变慢
+const MAX_SAMPLES = 12000;
+
+export interface TextPoints {
+    // 扁平的 [x0, y0, x1, y1, ...]，单位是世界坐标，以文字中心为原点
+    fill: number[];
+    // 笔画边缘上的点，灯光沿这里排列
+    edge: number[];
+    // 两个采样点之间的世界距离，用来给点加抖动
+    spacing: number;
+    width: number;
+    height: number;
+}
+
+// 没有手动换行的长句在最靠近中间的空格处断成两行
+export function splitLines(text: string): string[] {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    if (lines.length !== 1 || lines[0].length <= 14) return lines;
+    const line = lines[0];
+    const mid = line.length / 2;
+    let best = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === ' ' && (best < 0 || Math.abs(i - mid) < Math.abs(best - mid))) best = i;
+    }
+    return best < 0 ? lines : [line.slice(0, best), line.slice(best + 1)];
+}
+
+export function rasterizeText(text: string, maxWidth: number, maxHeight: number): TextPoints {
+    const lines = splitLines(text);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.font = TEXT_FONT;
+    const fontSize = 120;
+    const pad = 20;
+    const textWidth = Math.max(1, ...lines.map(l => ctx.measureText(l).width));
+    canvas.width = Math.ceil(textWidth + pad * 2);
+    canvas.height = Math.ceil(Math.max(1, lines.length) * fontSize * LINE_HEIGHT + pad * 2);
+
+    // 改了尺寸之后上下文状态会被重置
+    ctx.font = TEXT_FONT;
+    ctx.fillStyle = '#fff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, i) => {
+        ctx.fillText(line, canvas.width / 2, pad + (i + 0.5) * fontSize * LINE_HEIGHT);
+    });
+
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && data[(y * width + x) * 4 + 3] > 127;
+    let filled = 0;
+    for (let i = 3; i < data.length; i += 4) if (data[i] > 127) filled++;
+    const step = Math.max(2, Math.round(Math.sqrt(filled / MAX_SAMPLES)));
+
+    const scale = Math.min(maxWidth / width, maxHeight / height);
+    const fill: number[] = [];
+    const edge: number[] = [];
+    for (let y = 0; y < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            if (!inside(x, y)) continue;
+            const wx = (x - width / 2) * scale;
+            const wy = (height / 2 - y) * scale;
+            fill.push(wx, wy);
+            if (!inside(x - step, y) || !inside(x + step, y) || !inside(x, y - step) || !inside(x, y + step)) edge.push(wx, wy);
+        }
+    }
+    return { fill, edge, spacing: step * scale, width: width * scale, height: height * scale };
+}
@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+
+// --- 主题：粒子、灯光、星星、树干、泛光、雾与背景、HUD 配色的整套预设 ---
+
+// 主题覆盖的 CONFIG 子集，切换主题就是把它写回 CONFIG
+export interface ThemePalette {
+    colors: typeof CONFIG.colors;
+    render: typeof CONFIG.render;
+    atmosphere: typeof CONFIG.atmosphere;
+    hud: typeof CONFIG.hud;
+}
+
+export interface Theme {
+    id: string;
+    label: string;
+    custom?: boolean;
+    palette: ThemePalette;
+}
+
+// 粒子颜色取自调色板的哪一格：数字是 greens 里的下标
+export type PaletteSlot = 'gold' | 'red' | 'light' | number;
+
+export const paletteColor = (slot: PaletteSlot) =>
+    typeof slot === 'number' ? CONFIG.colors.greens[slot % CONFIG.colors.greens.length] : slot === 'light' ? CONFIG.colors.lightLow : CONFIG.colors[slot];
+
+export const paletteFromConfig = (): ThemePalette => JSON.parse(JSON.stringify({
+    colors: CONFIG.colors,
+    render: CONFIG.render,
+    atmosphere: CONFIG.atmosphere,
+    hud: CONFIG.hud
+}));
+
+export const THEMES: Theme[] = [
+    { id: 'classic', label: 'CLASSIC GOLD', palette: paletteFromConfig() },
+    {
+        id: 'winter',
+        label: 'WINTER SILVER',
+        palette: {
+            colors: {
+                gold: 0xc0c8d8, greens: [0x0e2a3a, 0x12344a, 0x1b3f55, 0x0a2230], red: 0x2f6fb0,
+                love: 0x7fb8ff, snow: 0xeaf6ff, hoverGlow: 0xe0f0ff, trunk: 0x2a2f38, star: 0xe8f4ff,
+                lightLow: 0xdff2ff, lightHigh: 0x9fd0ff
+            },
+            render: { exposure: 2.0, bloomStrength: 0.8, bloomRadius: 0.4, bloomThreshold: 0.75 },
+            atmosphere: { background: 0x060a12, fog: 0x0a1422, fogDensity: 0.006 },
+            hud: { accent: 0xbcd4f0, alert: 0x7fb8ff }
+        }
+    },
+    {
+        id: 'sakura',
+        label: 'SAKURA PINK',
+        palette: {
+            colors: {
+                gold: 0xf0b8c0, greens: [0x5a1f35, 0x7a2a48, 0x8e3b5a, 0x4a1a2d], red: 0xff6f91,
+                love: 0xff4f81, snow: 0xffe4ee, hoverGlow: 0xffe0ea, trunk: 0x3a2228, star: 0xfff0f5,
+                lightLow: 0xfff0f6, lightHigh: 0xffb3cf
+            },
+            render: { exposure: 2.1, bloomStrength: 0.75, bloomRadius: 0.35, bloomThreshold: 0.8 },
+            atmosphere: { background: 0x120810, fog: 0x1a0c14, fogDensity: 0.004 },
+            hud: { accent: 0xf4a6c0, alert: 0xff4f81 }
+        }
+    },
+    {
+        id: 'neon',
+        label: 'MIDNIGHT NEON',
+        palette: {
+            colors: {
+                gold: 0x00e5ff, greens: [0x0b0533, 0x120a4a, 0x1c0f66, 0x07031f], red: 0xff00aa,
+                love: 0xff2bd6, snow: 0xb8c8ff, hoverGlow: 0xb0ffff, trunk: 0x1a1030, star: 0xf0f0ff,
+                lightLow: 0x00fff0, lightHigh: 0xff3df5
+            },
+            render: { exposure: 2.4, bloomStrength: 1.1, bloomRadius: 0.45, bloomThreshold: 0.7 },
+            atmosphere: { background: 0x02010a, fog: 0x05021a, fogDensity: 0.008 },
+            hud: { accent: 0x00e5ff, alert: 0xff2bd6 }
+        }
+    }
+];
+
+const _a = new THREE.Color();
+const _b = new THREE.Color();
+const mixColor = (a: number, b: number, t: number) => _a.setHex(a).lerp(_b.setHex(b), t).getHex();
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// 两套调色板之间的插值，颜色逐通道混合；greens 长度不同时在终点直接换成新的
+export function blendPalette(a: ThemePalette, b: ThemePalette, t: number): ThemePalette {
+    const colors: Record<string, number | number[]> = {};
+    Object.entries(b.colors).forEach(([key, to]) => {
+        const from = (a.colors as Record<string, number | number[]>)[key];
+        if (Array.isArray(to)) {
+            colors[key] = Array.isArray(from) && from.length === to.length ? to.map((c, i) => mixColor(from[i], c, t)) : (t < 1 ? from : to);
+        } else {
+            colors[key] = mixColor(from as number, to, t);
+        }
+    });
+    return {
+        colors: colors as ThemePalette['colors'],
+        render: {
+            exposure: mix(a.render.exposure, b.render.exposure, t),
+            bloomStrength: mix(a.render.bloomStrength, b.render.bloomStrength, t),
+            bloomRadius: mix(a.render.bloomRadius, b.render.bloomRadius, t),
+            bloomThreshold: mix(a.render.bloomThreshold, b.render.bloomThreshold, t)
+        },
+        atmosphere: {
+            background: mixColor(a.atmosphere.background, b.atmosphere.background, t),
+            fog: mixColor(a.atmosphere.fog, b.atmosphere.fog, t),
+            fogDensity: mix(a.atmosphere.fogDensity, b.atmosphere.fogDensity, t)
+        },
+        hud: {
+            accent: mixColor(a.hud.accent, b.hud.accent, t),
+            alert: mixColor(a.hud.alert, b.hud.alert, t)
+        }
+    };
+}
+
+// 主题切换的淡入淡出；update 在过渡期间返回当前的混合调色板，结束后返回 null
+export class ThemeFade {
+    from: ThemePalette | null = null;
+    to: ThemePalette | null = null;
+    elapsed = 0;
+    duration = 1.5;
+
+    start(from: ThemePalette, to: ThemePalette) {
+        this.from = from;
+        this.to = to;
+        this.elapsed = 0;
+    }
+
+    update(dt: number): ThemePalette | null {
+        if (!this.from || !this.to) return null;
+        this.elapsed += dt;
+        const t = Math.min(this.elapsed / this.duration, 1);
+        const palette = blendPalette(this.from, this.to, t * t * (3 - 2 * t));
+        if (t >= 1) this.from = this.to = null;
+        return palette;
+    }
+}
@@ -0,0 +1,191 @@
+import * as THREE from 'three';
+import { CONFIG } from '../config';
+import { damp } from './clock';
+import type { Random } from './random';
+
+// --- 天气：几千片雪花全部在顶点着色器里算位置，CPU 每帧只更新几个 uniform ---
+
+export interface WeatherPreset {
+    label: string;
+    // 使用的雪花占 CONFIG.snow.capacity 的比例
+    density: number;
+    // 下落速度（单位/秒）
+    fall: number;
+    // 水平风速（单位/秒），再乘以 CONFIG.snow.wind
+    wind: number;
+    // 雪花左右打旋的幅度
+    turbulence: number;
+    // TREE 模式下积雪每秒增长的比例
+    settle: number;
+}
+
+// 按 CONFIG.snow.intensity 取用：0 无雪到 4 大暴雪
+export const WEATHER_PRESETS: WeatherPreset[] = [
+    { label: 'CALM', density: 0, fall: 2, wind: 0, turbulence: 0, settle: 0 },
+    { label: 'FLURRY', density: 0.12, fall: 1.8, wind: 0.4, turbulence: 0.4, settle: 0.01 },
+    { label: 'SNOW', density: 0.3, fall: 2.4, wind: 1, turbulence: 0.7, settle: 0.025 },
+    { label: 'STORM', density: 0.65, fall: 3.5, wind: 4, turbulence: 1.2, settle: 0.06 },
+    { label: 'BLIZZARD', density: 1, fall: 5, wind: 9, turbulence: 2, settle: 0.12 }
+];
+
+// 阵风：屏幕宽度/秒的手速换算成风速，以及阵风的上限和衰减
+const GUST_SCALE = 25;
+const MAX_GUST = 40;
+const GUST_DECAY = 1.2;
+
+const vertexShader = /* glsl */`
+    attribute vec4 aSeed;
+    attribute float aSize;
+    uniform float uTime;
+    uniform float uFall;
+    uniform vec3 uDrift;
+    uniform vec3 uBounds;
+    uniform float uTurbulence;
+    uniform float uDensity;
+    uniform float uScale;
+    varying float vAlpha;
+
+    void main() {
+        // w 是雪花的序号比例：小于 uDensity 的才显示，强度变化时边缘淡入淡出
+        float rank = aSeed.w;
+        vec3 p = aSeed.xyz * uBounds;
+        p.y -= uFall * (0.7 + 0.6 * fract(rank * 7.31));
+        // 轻的雪花被风吹得更远，风在不同高度上强弱不一
+        p += uDrift * (0.6 + 0.8 * fract(rank * 3.17)) * (1.0 + 0.25 * sin(p.y * 0.08 + uTime * 0.5));
+        p.x += sin(uTime * 0.9 + rank * 40.0 + p.y * 0.1) * uTurbulence;
+        p.z += cos(uTime * 0.7 + rank * 25.0 + p.y * 0.1) * uTurbulence;
+        p = mod(p, uBounds) - uBounds * 0.5;
+
+        vAlpha = 1.0 - smoothstep(uDensity - 0.02, uDensity, rank);
+        vec4 mv = modelViewMatrix * vec4(p, 1.0);
+        gl_PointSize = vAlpha > 0.0 ? aSize * uScale / -mv.z : 0.0;
+        gl_Position = projectionMatrix * mv;
+    }
+`;
+
+const fragmentShader = /* glsl */`
+    uniform sampler2D uMap;
+    uniform vec3 uColor;
+    uniform float uOpacity;
+    varying float vAlpha;
+
+    void main() {
+        float a = texture2D(uMap, gl_PointCoord).a * uOpacity * vAlpha;
+        if (a < 0.01) discard;
+        gl_FragColor = vec4(uColor, a);
+    }
+`;
+
+function createFlakeTexture() {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64; canvas.height = 64;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    gradient.addColorStop(0.3, 'rgba(255, 255, 255, 0.7)');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 64, 64);
+    return new THREE.CanvasTexture(canvas);
+}
+
+const _size = new THREE.Vector2();
+
+export class Weather {
+    points: THREE.Points;
+    material: THREE.ShaderMaterial;
+    // 当前生效的参数，向所选强度的预设平滑过渡
+    params: WeatherPreset = { ...WEATHER_PRESETS[0] };
+    fall = 0;
+    drift = new THREE.Vector3();
+    gust = new THREE.Vector3();
+    wind = new THREE.Vector3();
+    // 画质档位给出的雪花比例
+    quality = 1;
+
+    constructor(capacity: number, random: Random) {
+        const seeds = new Float32Array(capacity * 4);
+        const sizes = new Float32Array(capacity);
+        for (let i = 0; i < capacity; i++) {
+            seeds.set([random(), random(), random(), (i + 0.5) / capacity], i * 4);
+            sizes[i] = 0.15 + random() * 0.25;
+        }
+        const geometry = new THREE.BufferGeometry();
+        // 位置全在着色器里算，position 只用来满足渲染器对顶点数量的要求
+        geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+        geometry.setAttribute('aSeed', new THREE.BufferAttribute(seeds, 4));
+        geometry.setAttribute('aSize', new THREE.BufferAttribute(sizes, 1));
+
+        this.material = new THREE.ShaderMaterial({
+            vertexShader,
+            fragmentShader,
+            uniforms: {
+                uTime: { value: 0 },
+                uFall: { value: 0 },
+                uDrift: { value: this.drift },
+                uBounds: { value: new THREE.Vector3() },
+                uTurbulence: { value: 0 },
+                uDensity: { value: 0 },
+                uScale: { value: 1 },
+                uMap: { value: createFlakeTexture() },
+                uColor: { value: new THREE.Color(CONFIG.colors.snow) },
+                uOpacity: { value: 0.75 }
+            },
+            transparent: true,
+            depthWrite: false
+        });
+        this.points = new THREE.Points(geometry, this.material);
+        // 雪花铺满整个场景，包围球没有意义
+        this.points.frustumCulled = false;
+        // 与 Sprite 一样按透视缩放：截图、录像改变画布尺寸时也保持比例
+        this.points.onBeforeRender = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera) => {
+            renderer.getDrawingBufferSize(_size);
+            this.material.uniforms.uScale.value = _size.y / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2));
+        };
+    }
+
+    get preset(): WeatherPreset {
+        return WEATHER_PRESETS[THREE.MathUtils.clamp(CONFIG.snow.intensity, 0, WEATHER_PRESETS.length - 1)];
+    }
+
+    // 积雪速度跟随当前（过渡中的）强度
+    get settleRate() {
+        return this.params.settle;
+    }
+
+    // x、y 是屏幕方向的手速（屏幕宽度/秒），屏幕向下对应世界向下
+    blow(x: number, y: number) {
+        this.gust.x += x * GUST_SCALE * CONFIG.snow.gust;
+        this.gust.y -= y * GUST_SCALE * 0.5 * CONFIG.snow.gust;
+        this.gust.clampLength(0, MAX_GUST);
+    }
+
+    update(dt: number, time: number) {
+        const target = this.preset;
+        const k = damp(0.02, dt);
+        (['density', 'fall', 'wind', 'turbulence', 'settle'] as const).forEach(key => {
+            this.params[key] = THREE.MathUtils.lerp(this.params[key], target[key], k);
+        });
+        this.gust.multiplyScalar(Math.exp(-dt * GUST_DECAY));
+
+        // 主风向沿 x，带一点随时间摆动的 z 分量
+        this.wind.set(this.params.wind * CONFIG.snow.wind, 0, Math.sin(time * 0.13) * this.params.wind * CONFIG.snow.wind * 0.3).add(this.gust);
+        this.drift.addScaledVector(this.wind, dt);
+        this.fall += this.params.fall * dt;
+
+        const { x, y, z } = CONFIG.snow.bounds;
+        const u = this.material.uniforms;
+        u.uTime.value = time;
+        u.uFall.value = this.fall;
+        u.uBounds.value.set(x, y, z);
+        u.uTurbulence.value = this.params.turbulence;
+        u.uDensity.value = this.params.density * this.quality;
+        this.points.visible = u.uDensity.value > 0.001;
+    }
+
+    dispose() {
+        this.points.geometry.dispose();
+        this.material.uniforms.uMap.value.dispose();
+        this.material.dispose();
+    }
+}
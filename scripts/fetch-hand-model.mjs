@@ -0,0 +1,21 @@
+// 下载 MediaPipe 手部模型到 models/，之后 vite 会把它随应用一起发布
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../models/hand_landmarker.task');
+
+if (fs.existsSync(target) && !process.argv.includes('--force')) {
+    console.log(`${path.relative(process.cwd(), target)} already exists (use --force to download again)`);
+    process.exit(0);
+}
+
+const res = await fetch(MODEL_URL);
+if (!res.ok) {
+    console.error(`Download failed: ${res.status} ${res.statusText}`);
+    process.exit(1);
+}
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, Buffer.from(await res.arrayBuffer()));
+console.log(`Saved ${path.relative(process.cwd(), target)}`);
@@ -0,0 +1,72 @@
+// 生成 input/fixtures/gestures.json：一段合成的单手录制，依次做出捏合、握拳、张开手掌、划动、张开手挥动、再握拳和竖拇指
+// 格式和调试面板录下来的一样，也可以直接换成真实的录制（测试里的期望要跟着改）
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const target = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../input/fixtures/gestures.json');
+const FRAME_MS = 50;
+const round = v => Math.round(v * 1e4) / 1e4;
+
+// 手掌中心（中指根部）在 (cx, cy)，手腕在它下方 0.1；spread 是四指指尖到手腕的距离
+function hand(cx, cy, { spread = 0.3, pinch = false, thumbUp = false } = {}) {
+    const lm = Array.from({ length: 21 }, () => ({ x: cx, y: cy, z: 0 }));
+    const wrist = { x: cx, y: cy + 0.1 };
+    const at = (dx, distance) => ({ x: wrist.x + dx, y: wrist.y - Math.sqrt(Math.max(distance * distance - dx * dx, 0)), z: 0 });
+    lm[0] = { ...wrist, z: 0 };
+    // 弯曲的手指指尖比第二关节更靠近手腕
+    const curled = spread < 0.14;
+    [5, 9, 13, 17].forEach((mcp, f) => {
+        const dx = (f - 1.5) * 0.03;
+        lm[mcp] = at(dx, 0.1);
+        lm[mcp + 1] = at(dx, curled ? 0.14 : spread * 0.6);
+        lm[mcp + 2] = at(dx, curled ? 0.12 : spread * 0.8);
+        lm[mcp + 3] = at(dx, spread);
+    });
+    lm[1] = { x: wrist.x - 0.04, y: wrist.y - 0.03, z: 0 };
+    lm[2] = { x: wrist.x - 0.06, y: wrist.y - 0.06, z: 0 };
+    lm[3] = { x: wrist.x - 0.08, y: wrist.y - (thumbUp ? 0.11 : 0.07), z: 0 };
+    lm[4] = pinch
+        ? { x: lm[8].x - 0.02, y: lm[8].y, z: 0 }
+        : { x: wrist.x - (thumbUp ? 0.06 : 0.1), y: wrist.y - (thumbUp ? 0.16 : 0.08), z: 0 };
+    return lm.map(p => ({ x: round(p.x), y: round(p.y), z: 0 }));
+}
+
+// 每段：持续毫秒数，以及这段时间里第 k 帧的手（null 表示画面里没有手）
+const segments = [
+    [500, () => hand(0.5, 0.5)],
+    [300, () => hand(0.5, 0.5, { pinch: true })],
+    [400, () => hand(0.5, 0.5)],
+    [500, () => hand(0.5, 0.5, { spread: 0.1 })],
+    [400, () => hand(0.5, 0.5)],
+    [600, () => hand(0.5, 0.5, { spread: 0.55 })],
+    [400, () => hand(0.65, 0.5)],
+    // 放松的手向画面左边划（镜像后是屏幕右边）
+    [250, t => hand(0.65 - 0.35 * t, 0.5)],
+    [450, () => hand(0.3, 0.5)],
+    // 张开手掌停一下，再挥过去：只吹阵风，不翻照片
+    [300, () => hand(0.3, 0.5, { spread: 0.55 })],
+    [250, t => hand(0.3 + 0.4 * t, 0.5, { spread: 0.55 })],
+    [350, () => hand(0.7, 0.5, { spread: 0.55 })],
+    [300, () => hand(0.7, 0.5)],
+    [500, () => hand(0.7, 0.5, { spread: 0.1 })],
+    [300, () => hand(0.7, 0.5)],
+    [700, () => hand(0.7, 0.5, { spread: 0.1, thumbUp: true })],
+    [300, () => hand(0.7, 0.5)],
+    [300, () => null]
+];
+
+const frames = [];
+let start = 0;
+for (const [duration, make] of segments) {
+    for (let t = 0; t < duration; t += FRAME_MS) {
+        const lm = make(t / duration);
+        frames.push({ t: start + t, hands: lm ? [lm] : [], handedness: lm ? ['Right'] : [] });
+    }
+    start += duration;
+}
+
+const recording = { format: 'meow-hand-landmarks', version: 1, createdAt: '2026-01-01T00:00:00.000Z', frames };
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, JSON.stringify(recording) + '\n');
+console.log(`${path.relative(process.cwd(), target)}: ${frames.length} frames, ${start} ms`);
@@ -0,0 +1,230 @@
+// 手机遥控用的本地中继：同一配对码（房间）里的连接互相转发消息，不依赖任何第三方包
+// 用法：npm run relay [-- 端口]，默认 8787
+// 只接受本机或局域网地址上打开的页面；用主机名访问时把来源加进 RELAY_ORIGINS（逗号分隔，如 http://mybox.local:5173）
+import http from 'http';
+import os from 'os';
+import crypto from 'crypto';
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// 照片以 data URL 发送，遥控页会先缩小；更大的消息直接断开
+const MAX_MESSAGE = 8 * 1024 * 1024;
+const ROOM = /^[A-HJ-NP-Z2-9]{6}$/;
+// 一个房间只有显示端和一台手机
+const ROOM_SIZE = 2;
+// 每个地址每分钟最多尝试连接这么多次，防止挨个猜配对码
+const ATTEMPTS = 20;
+const ATTEMPT_WINDOW = 60 * 1000;
+const EXTRA_ORIGINS = (process.env.RELAY_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean);
+
+/** @type {Map<string, { count: number; since: number }>} */
+const attempts = new Map();
+
+/** @type {Map<string, Set<Peer>>} */
+const rooms = new Map();
+
+// 手机能访问到的局域网 IPv4 地址
+function lanAddresses() {
+    return Object.values(os.networkInterfaces()).flat()
+        .filter(a => a && a.family === 'IPv4' && !a.internal)
+        .map(a => a.address);
+}
+
+// 页面要来自本机或本机的局域网地址，别的网站不能借浏览器连进来
+function allowedOrigin(origin) {
+    if (typeof origin !== 'string') return false;
+    if (EXTRA_ORIGINS.includes(origin)) return true;
+    try {
+        const host = new URL(origin).hostname.replace(/^\[|\]$/g, '');
+        return host === 'localhost' || host === '127.0.0.1' || host === '::1' || lanAddresses().includes(host);
+    } catch(e) {
+        return false;
+    }
+}
+
+function tooManyAttempts(address) {
+    const now = Date.now();
+    const entry = attempts.get(address);
+    if (!entry || now - entry.since > ATTEMPT_WINDOW) {
+        attempts.set(address, { count: 1, since: now });
+        return false;
+    }
+    return ++entry.count > ATTEMPTS;
+}
+
+function reject(socket, status) {
+    socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+}
+
+function frame(opcode, payload) {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+class Peer {
+    constructor(socket, room) {
+        this.socket = socket;
+        this.room = room;
+        this.buffer = Buffer.alloc(0);
+        // 分片消息先攒起来，收到 FIN 再转发
+        this.fragments = [];
+        socket.on('data', chunk => this.receive(chunk));
+        socket.on('close', () => this.leave());
+        // 升级来的连接允许半关闭，对方直接断开时只有 end，要自己收尾，否则房间一直占着
+        socket.on('end', () => {
+            socket.end();
+            this.leave();
+        });
+        socket.on('error', () => this.leave());
+    }
+
+    receive(chunk) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (this.buffer.length >= 2) {
+            const fin = (this.buffer[0] & 0x80) !== 0;
+            const opcode = this.buffer[0] & 0x0f;
+            const masked = (this.buffer[1] & 0x80) !== 0;
+            let length = this.buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffer.length < 4) return;
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this.buffer.length < 10) return;
+                length = Number(this.buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (length > MAX_MESSAGE || !masked) {
+                // 浏览器发来的帧一定带掩码
+                this.close(1009);
+                return;
+            }
+            if (this.buffer.length < offset + 4 + length) return;
+            const mask = this.buffer.subarray(offset, offset + 4);
+            const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+            this.buffer = this.buffer.subarray(offset + 4 + length);
+            this.handle(fin, opcode, payload);
+        }
+    }
+
+    handle(fin, opcode, payload) {
+        switch (opcode) {
+            case 0x0:
+            case 0x1:
+            case 0x2: {
+                this.fragments.push(payload);
+                const size = this.fragments.reduce((n, f) => n + f.length, 0);
+                if (size > MAX_MESSAGE) {
+                    this.close(1009);
+                    return;
+                }
+                if (!fin) return;
+                const message = Buffer.concat(this.fragments);
+                this.fragments = [];
+                this.broadcast(message);
+                break;
+            }
+            case 0x8: this.close(1000); break;
+            case 0x9: this.socket.write(frame(0xa, payload)); break;
+        }
+    }
+
+    // 原样转给同一房间的其他连接，消息内容由两端自己校验
+    broadcast(message) {
+        const data = frame(0x1, message);
+        rooms.get(this.room)?.forEach(peer => {
+            if (peer !== this) peer.socket.write(data);
+        });
+    }
+
+    close(code) {
+        const body = Buffer.alloc(2);
+        body.writeUInt16BE(code);
+        if (this.socket.writable) this.socket.end(frame(0x8, body));
+        this.leave();
+    }
+
+    leave() {
+        const peers = rooms.get(this.room);
+        if (!peers?.delete(this)) return;
+        if (peers.size === 0) rooms.delete(this.room);
+        console.log(`[relay] ${this.room}: ${peers.size} connected`);
+    }
+}
+
+const server = http.createServer((req, res) => {
+    // 显示端用它拼出手机能打开的链接
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    if (req.url === '/info') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ addresses: lanAddresses(), rooms: rooms.size }));
+        return;
+    }
+    res.statusCode = 404;
+    res.end();
+});
+
+server.on('upgrade', (req, socket) => {
+    if (tooManyAttempts(socket.remoteAddress ?? '')) {
+        reject(socket, '429 Too Many Requests');
+        return;
+    }
+    if (!allowedOrigin(req.headers.origin)) {
+        console.log(`[relay] rejected origin ${req.headers.origin ?? '(none)'}`);
+        reject(socket, '403 Forbidden');
+        return;
+    }
+    const room = new URL(req.url ?? '/', 'http://relay').searchParams.get('room') ?? '';
+    const key = req.headers['sec-websocket-key'];
+    if (!ROOM.test(room) || typeof key !== 'string' || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+        reject(socket, '400 Bad Request');
+        return;
+    }
+    if ((rooms.get(room)?.size ?? 0) >= ROOM_SIZE) {
+        console.log(`[relay] ${room}: full, rejected another peer`);
+        reject(socket, '409 Conflict');
+        return;
+    }
+    const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', ''
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+    // 手机锁屏断网时也能发现连接已经死了，把位置让出来
+    socket.setKeepAlive(true, 30 * 1000);
+
+    const peer = new Peer(socket, room);
+    if (!rooms.has(room)) rooms.set(room, new Set());
+    rooms.get(room).add(peer);
+    console.log(`[relay] ${room}: ${rooms.get(room).size} connected`);
+});
+
+// 过期的尝试记录定期清掉
+setInterval(() => {
+    const now = Date.now();
+    attempts.forEach((entry, address) => {
+        if (now - entry.since > ATTEMPT_WINDOW) attempts.delete(address);
+    });
+}, ATTEMPT_WINDOW).unref();
+
+server.listen(PORT, () => {
+    console.log(`Remote relay listening on port ${PORT}`);
+    lanAddresses().forEach(a => console.log(`  ws://${a}:${PORT}`));
+});
@@ -0,0 +1,160 @@
+// --- 音乐律动：用 Web Audio 分析本地音乐或麦克风，给场景提供节拍与响度 ---
+
+export interface AudioSettings {
+    // 越大越容易判定为节拍，0.25–3
+    sensitivity: number;
+    // 持续的响亮段落让粒子炸开（切到 SCATTER）
+    bursts: boolean;
+}
+
+export interface AudioFrame {
+    // 平滑后的整体响度，0–1
+    level: number;
+    // 每次检测到节拍时置 1，随后按指数衰减
+    beat: number;
+    // 本帧刚进入持续的响亮段落
+    burst: boolean;
+}
+
+// 低频能量的取值上限（Hz），鼓点主要在这里
+const BASS_HZ = 150;
+// 两次节拍之间的最短间隔（秒），约等于 270 BPM
+const MIN_BEAT_GAP = 0.22;
+const FLUX_WINDOW = 1;
+// 响亮段落持续这么久才炸开，两次炸开之间至少隔这么久
+const BURST_HOLD = 1.5;
+const BURST_COOLDOWN = 8;
+
+export class AudioReactive {
+    settings: AudioSettings;
+    ctx: AudioContext | null = null;
+    analyser: AnalyserNode | null = null;
+    source: AudioNode | null = null;
+    element: HTMLAudioElement | null = null;
+    stream: MediaStream | null = null;
+    label = '';
+    freq = new Uint8Array(0);
+    wave = new Uint8Array(0);
+
+    time = 0;
+    lastBass = 0;
+    fluxHistory: { t: number; v: number }[] = [];
+    lastBeat = -Infinity;
+    frame: AudioFrame = { level: 0, beat: 0, burst: false };
+    fastLevel = 0;
+    slowLevel = 0;
+    loudFor = 0;
+    lastBurst = -Infinity;
+
+    constructor(settings: AudioSettings) {
+        this.settings = settings;
+    }
+
+    get playing() {
+        if (this.stream) return true;
+        return !!this.element && !this.element.paused && !this.element.ended;
+    }
+
+    private setup(): { ctx: AudioContext; analyser: AnalyserNode } {
+        this.stop();
+        if (!this.ctx) {
+            this.ctx = new AudioContext();
+            this.analyser = this.ctx.createAnalyser();
+            this.analyser.fftSize = 1024;
+            this.analyser.smoothingTimeConstant = 0.5;
+            this.freq = new Uint8Array(this.analyser.frequencyBinCount);
+            this.wave = new Uint8Array(this.analyser.fftSize);
+        }
+        // 浏览器要求在用户操作里恢复音频上下文
+        this.ctx.resume();
+        return { ctx: this.ctx, analyser: this.analyser! };
+    }
+
+    async playFile(file: File) {
+        const { ctx, analyser } = this.setup();
+        const audio = new Audio(URL.createObjectURL(file));
+        audio.loop = true;
+        this.element = audio;
+        this.source = ctx.createMediaElementSource(audio);
+        this.source.connect(analyser);
+        analyser.connect(ctx.destination);
+        this.label = file.name;
+        await audio.play();
+    }
+
+    async useMicrophone() {
+        const { ctx, analyser } = this.setup();
+        this.stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: false } });
+        // 麦克风只分析，不接到扬声器上，免得啸叫
+        this.source = ctx.createMediaStreamSource(this.stream);
+        this.source.connect(analyser);
+        this.label = 'MICROPHONE';
+    }
+
+    stop() {
+        this.source?.disconnect();
+        this.analyser?.disconnect();
+        this.source = null;
+        if (this.element) {
+            this.element.pause();
+            URL.revokeObjectURL(this.element.src);
+            this.element = null;
+        }
+        this.stream?.getTracks().forEach(t => t.stop());
+        this.stream = null;
+        this.label = '';
+        this.frame = { level: 0, beat: 0, burst: false };
+        this.fluxHistory = [];
+        this.loudFor = 0;
+    }
+
+    /**
+     * Analyses the current audio and returns the frame, or null when nothing
+     * is playing so callers fall back to their time-based animation. Beats are
+     * onsets in low-frequency energy that rise clearly above the last second's
+     * average; `sensitivity` lowers that bar.
+     */
+    update(dt: number): AudioFrame | null {
+        if (!this.analyser || !this.playing) return null;
+        this.time += dt;
+        const { sensitivity } = this.settings;
+        this.analyser.getByteFrequencyData(this.freq);
+        this.analyser.getByteTimeDomainData(this.wave);
+
+        let sum = 0;
+        for (let i = 0; i < this.wave.length; i++) {
+            const v = (this.wave[i] - 128) / 128;
+            sum += v * v;
+        }
+        const rms = Math.min(1, Math.sqrt(sum / this.wave.length) * 2.5);
+
+        const binHz = this.ctx!.sampleRate / this.analyser.fftSize;
+        const bassBins = Math.max(2, Math.ceil(BASS_HZ / binHz));
+        let bass = 0;
+        for (let i = 1; i <= bassBins; i++) bass += this.freq[i];
+        bass /= bassBins * 255;
+
+        const flux = Math.max(0, bass - this.lastBass);
+        this.lastBass = bass;
+        this.fluxHistory.push({ t: this.time, v: flux });
+        while (this.fluxHistory.length && this.time - this.fluxHistory[0].t > FLUX_WINDOW) this.fluxHistory.shift();
+        const mean = this.fluxHistory.reduce((s, f) => s + f.v, 0) / this.fluxHistory.length;
+        const std = Math.sqrt(this.fluxHistory.reduce((s, f) => s + (f.v - mean) ** 2, 0) / this.fluxHistory.length);
+        const threshold = mean + std * 1.5 / sensitivity;
+        const isBeat = flux > threshold && flux > 0.02 / sensitivity && this.time - this.lastBeat > MIN_BEAT_GAP;
+        if (isBeat) this.lastBeat = this.time;
+
+        // 快慢两条响度均线：快线明显高于慢线并持续一阵，算作进入响亮段落
+        this.fastLevel += (rms - this.fastLevel) * (1 - Math.exp(-dt / 0.5));
+        this.slowLevel += (rms - this.slowLevel) * (1 - Math.exp(-dt / 8));
+        const loud = this.fastLevel > 0.15 && this.fastLevel > this.slowLevel * (1 + 0.4 / sensitivity);
+        this.loudFor = loud ? this.loudFor + dt : 0;
+        const burst = this.loudFor > BURST_HOLD && this.time - this.lastBurst > BURST_COOLDOWN;
+        if (burst) this.lastBurst = this.time;
+
+        this.frame.level += (rms - this.frame.level) * (1 - Math.exp(-dt * 12));
+        this.frame.beat = isBeat ? 1 : this.frame.beat * Math.exp(-dt * 5);
+        this.frame.burst = burst;
+        return this.frame;
+    }
+}
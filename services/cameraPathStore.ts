@@ -0,0 +1,54 @@
+import { CAMERA_PATHS, CameraKey, CameraPath, parseCameraKeys } from '../scene/cameraPath';
+
+// --- 相机路径的本地持久化：用户录下并保存的路径，预设路径不存 ---
+
+const STORAGE_KEY = 'meow-holiday-tree-camera-paths';
+
+export class CameraPathStore {
+    custom: CameraPath[] = [];
+
+    get all(): CameraPath[] {
+        return [...CAMERA_PATHS, ...this.custom];
+    }
+
+    find(id: string): CameraPath | undefined {
+        return this.all.find(p => p.id === id);
+    }
+
+    // 损坏的路径直接丢掉
+    load() {
+        try {
+            const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+            this.custom = (Array.isArray(raw) ? raw : []).flatMap((p: any) => {
+                try {
+                    return [{ id: String(p.id), label: String(p.label), custom: true, keys: parseCameraKeys(p.keys) }];
+                } catch(e) {
+                    console.warn(`Camera path ${p?.label} could not be read`, e);
+                    return [];
+                }
+            });
+        } catch(e) {
+            console.warn("Camera paths could not be read", e);
+        }
+    }
+
+    save(label: string, keys: CameraKey[]): CameraPath {
+        const path: CameraPath = { id: `path-${Date.now().toString(36)}`, label: label.toUpperCase(), custom: true, keys };
+        this.custom.push(path);
+        this.persist();
+        return path;
+    }
+
+    remove(id: string) {
+        this.custom = this.custom.filter(p => p.id !== id);
+        this.persist();
+    }
+
+    private persist() {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.custom.map(({ id, label, keys }) => ({ id, label, keys }))));
+        } catch(e) {
+            console.warn("Camera paths could not be saved", e);
+        }
+    }
+}
@@ -0,0 +1,112 @@
+// --- 从 JPEG 的 EXIF 里读取拍摄时间和方向 ---
+
+export interface ExifInfo {
+    // 拍摄时间（毫秒时间戳；EXIF 不带时区，按本地时间解释）
+    takenAt?: number;
+    // EXIF Orientation，1–8，1 表示不需要旋转
+    orientation?: number;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+// EXIF 在文件开头的 APP1 段里，读前 128KB 就够了
+const HEAD_BYTES = 128 * 1024;
+
+export async function readExif(blob: Blob): Promise<ExifInfo> {
+    try {
+        return parseExif(new DataView(await blob.slice(0, HEAD_BYTES).arrayBuffer()));
+    } catch {
+        // 截断或损坏的 EXIF 当作没有
+        return {};
+    }
+}
+
+export function parseExif(view: DataView): ExifInfo {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return {};
+        // APP1 段以 "Exif\0\0" 开头，后面是一个 TIFF 结构
+        if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) return parseTiff(view, offset + 10);
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return {};
+}
+
+function parseTiff(view: DataView, start: number): ExifInfo {
+    const little = view.getUint16(start) === 0x4949;
+    const u16 = (at: number) => view.getUint16(start + at, little);
+    const u32 = (at: number) => view.getUint32(start + at, little);
+    if (u16(2) !== 42) return {};
+
+    const eachTag = (ifd: number, visit: (tag: number, count: number, value: number) => void) => {
+        const entries = u16(ifd);
+        for (let i = 0; i < entries; i++) {
+            const entry = ifd + 2 + i * 12;
+            visit(u16(entry), u32(entry + 4), entry + 8);
+        }
+    };
+    // ASCII 值不超过 4 字节时直接存在条目里，否则存的是偏移
+    const ascii = (count: number, value: number) => {
+        const at = count > 4 ? u32(value) : value;
+        let s = '';
+        for (let i = 0; i < count - 1; i++) s += String.fromCharCode(view.getUint8(start + at + i));
+        return s;
+    };
+
+    const info: ExifInfo = {};
+    let dateTime: string | undefined;
+    let original: string | undefined;
+    let exifIfd = 0;
+    eachTag(u32(4), (tag, count, value) => {
+        if (tag === TAG_ORIENTATION) info.orientation = u16(value);
+        else if (tag === TAG_DATETIME) dateTime = ascii(count, value);
+        else if (tag === TAG_EXIF_IFD) exifIfd = u32(value);
+    });
+    if (exifIfd) {
+        eachTag(exifIfd, (tag, count, value) => {
+            if (tag === TAG_DATETIME_ORIGINAL) original = ascii(count, value);
+        });
+    }
+
+    if (info.orientation !== undefined && (info.orientation < 1 || info.orientation > 8)) delete info.orientation;
+    const takenAt = parseExifDate(original ?? dateTime);
+    if (takenAt !== undefined) info.takenAt = takenAt;
+    return info;
+}
+
+// EXIF 日期格式 "YYYY:MM:DD HH:MM:SS"；相机没设时间时会写成全零
+export function parseExifDate(text?: string) {
+    const m = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(text ?? '');
+    if (!m) return undefined;
+    const [y, mo, d, h, mi, s] = m.slice(1).map(Number);
+    if (y < 1900 || mo < 1) return undefined;
+    const t = new Date(y, mo - 1, d, h, mi, s).getTime();
+    return Number.isFinite(t) ? t : undefined;
+}
+
+// 现代浏览器解码 <img> 时已经按 EXIF 方向摆正（image-orientation: from-image），老浏览器要自己转
+export function browserAppliesOrientation() {
+    return getComputedStyle(document.documentElement).getPropertyValue('image-orientation') === 'from-image';
+}
+
+// 摆正后的宽高：5–8 是转了 90° 的方向，宽高互换
+export function orientedSize(width: number, height: number, orientation: number) {
+    return orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+// 设置变换，使之后按原始像素尺寸 (w, h) 画出的图像呈摆正的样子；主线程与 worker 里的 canvas 都能用
+export function applyOrientation(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, orientation: number, w: number, h: number) {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+    }
+}
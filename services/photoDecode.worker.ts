@@ -0,0 +1,25 @@
+import { scalePhoto } from './photoScale';
+
+// --- 照片解码 worker：大图的解码和缩放都不占主线程 ---
+
+export interface DecodeRequest {
+    id: number;
+    blob: Blob;
+    maxSize: number;
+    orientation: number;
+}
+
+const scope = self as unknown as {
+    onmessage: (e: MessageEvent<DecodeRequest>) => void;
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = async e => {
+    const { id, blob, maxSize, orientation } = e.data;
+    try {
+        const photo = await scalePhoto(blob, maxSize, orientation);
+        scope.postMessage({ id, photo }, [photo.bitmap]);
+    } catch(err) {
+        scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+    }
+};
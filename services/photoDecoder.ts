@@ -0,0 +1,68 @@
+import { readExif, browserAppliesOrientation } from './exif';
+import { scalePhoto, ScaledPhoto } from './photoScale';
+import type { DecodeRequest } from './photoDecode.worker';
+
+// --- 照片解码：优先交给 worker，浏览器不支持时退回主线程 ---
+
+type Pending = { resolve: (p: ScaledPhoto) => void; reject: (e: Error) => void };
+
+export class PhotoDecoder {
+    worker: Worker | null = null;
+    // worker 建不起来或者在里面解码失败（例如没有 OffscreenCanvas）后不再尝试
+    workerBroken = typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined';
+    pending = new Map<number, Pending>();
+    nextId = 1;
+
+    private getWorker() {
+        if (this.workerBroken) return null;
+        if (!this.worker) {
+            try {
+                this.worker = new Worker(new URL('./photoDecode.worker.ts', import.meta.url), { type: 'module' });
+            } catch(e) {
+                console.warn('Photo decode worker unavailable', e);
+                this.workerBroken = true;
+                return null;
+            }
+            this.worker.onmessage = (e: MessageEvent<{ id: number; photo?: ScaledPhoto; error?: string }>) => {
+                const job = this.pending.get(e.data.id);
+                this.pending.delete(e.data.id);
+                if (!job) return;
+                if (e.data.photo) job.resolve(e.data.photo);
+                else job.reject(new Error(e.data.error));
+            };
+            this.worker.onerror = e => {
+                console.warn('Photo decode worker failed', e);
+                this.workerBroken = true;
+                this.worker?.terminate();
+                this.worker = null;
+                this.pending.forEach(job => job.reject(new Error('worker failed')));
+                this.pending.clear();
+            };
+        }
+        return this.worker;
+    }
+
+    async decode(blob: Blob, maxSize: number): Promise<ScaledPhoto> {
+        // 解码器已经按 EXIF 摆正时不再重复旋转
+        const { orientation = 1 } = await readExif(blob);
+        const rotate = browserAppliesOrientation() ? 1 : orientation;
+        const worker = this.getWorker();
+        if (!worker) return scalePhoto(blob, maxSize, rotate);
+        const id = this.nextId++;
+        const request: DecodeRequest = { id, blob, maxSize, orientation: rotate };
+        try {
+            return await new Promise<ScaledPhoto>((resolve, reject) => {
+                this.pending.set(id, { resolve, reject });
+                worker.postMessage(request);
+            });
+        } catch {
+            // worker 里失败的图片在主线程再试一次，真坏掉的文件会在这里抛出
+            return scalePhoto(blob, maxSize, rotate);
+        }
+    }
+
+    dispose() {
+        this.worker?.terminate();
+        this.worker = null;
+    }
+}
@@ -0,0 +1,44 @@
+import { applyOrientation, orientedSize } from './exif';
+
+// --- 解码并缩小照片；worker 与主线程回退共用这一份实现 ---
+
+export interface ScaledPhoto {
+    bitmap: ImageBitmap;
+    // 摆正后的原图尺寸，用来算相框比例
+    width: number;
+    height: number;
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+/**
+ * Decodes `blob`, rotates it upright (`orientation` is the EXIF rotation still
+ * to apply, 1 when the decoder already honours it) and scales the long edge
+ * down to `maxSize`. The result is stored upside down: WebGL ignores flipY for
+ * ImageBitmap uploads, so textures built from it must set `flipY = false`.
+ */
+export async function scalePhoto(blob: Blob, maxSize: number, orientation: number): Promise<ScaledPhoto> {
+    const source = await createImageBitmap(blob);
+    const { width, height } = orientedSize(source.width, source.height, orientation);
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    const w = Math.max(1, Math.round(width * scale));
+    const h = Math.max(1, Math.round(height * scale));
+
+    const canvas = createCanvas(w, h);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(0, h);
+    ctx.scale(scale, -scale);
+    applyOrientation(ctx, orientation, source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+    source.close();
+
+    const bitmap = 'transferToImageBitmap' in canvas ? canvas.transferToImageBitmap() : await createImageBitmap(canvas);
+    return { bitmap, width, height };
+}
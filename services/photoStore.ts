@@ -0,0 +1,180 @@
+import type { TreePin } from '../scene/placement';
+import type { OrnamentKind } from '../scene/ornaments';
+
+// --- 照片库本地持久化（IndexedDB） ---
+
+export interface StoredPhoto {
+    id: string;
+    blob: Blob;
+    name: string;
+    order: number;
+    caption?: string;
+    // EXIF 拍摄时间（毫秒时间戳），没有时按照片库顺序排在最后
+    takenAt?: number;
+    // 编辑模式里固定在树上的位置，只在 TREE 阵型里生效
+    pin?: TreePin;
+}
+
+// 编辑模式里挂上去的挂饰，和照片存在同一个库里
+export interface StoredOrnament {
+    id: string;
+    kind: OrnamentKind;
+    name: string;
+    order: number;
+    pin?: TreePin;
+    // 自定义图片挂饰的原图
+    image?: Blob;
+}
+
+const DB_NAME = 'meow-holiday-tree';
+const DB_VERSION = 2;
+const STORE = 'photos';
+const ORNAMENTS = 'ornaments';
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export function createPhotoId() {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+// 照片库的读写接口：默认存在 IndexedDB，嵌入页面自带照片时只存在内存里
+export interface PhotoLibrary {
+    list(): Promise<StoredPhoto[]>;
+    put(...photos: StoredPhoto[]): Promise<void>;
+    remove(id: string): Promise<void>;
+    setOrder(ids: string[]): Promise<void>;
+    listOrnaments(): Promise<StoredOrnament[]>;
+    putOrnament(ornament: StoredOrnament): Promise<void>;
+    removeOrnament(id: string): Promise<void>;
+}
+
+export class PhotoStore implements PhotoLibrary {
+    private db: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('IndexedDB is not available'));
+                    return;
+                }
+                const req = indexedDB.open(DB_NAME, DB_VERSION);
+                req.onupgradeneeded = () => {
+                    // v2 加了挂饰库，旧库里的照片原样保留
+                    for (const name of [STORE, ORNAMENTS]) {
+                        if (!req.result.objectStoreNames.contains(name)) {
+                            req.result.createObjectStore(name, { keyPath: 'id' });
+                        }
+                    }
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+        }
+        return this.db;
+    }
+
+    async list(): Promise<StoredPhoto[]> {
+        const db = await this.open();
+        const photos = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll()) as StoredPhoto[];
+        return photos.sort((a, b) => a.order - b.order);
+    }
+
+    async put(...photos: StoredPhoto[]) {
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        photos.forEach(p => tx.objectStore(STORE).put(p));
+        await done(tx);
+    }
+
+    async remove(id: string) {
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).delete(id);
+        await done(tx);
+    }
+
+    // 按给定顺序重写每张照片的 order 字段
+    async setOrder(ids: string[]) {
+        const db = await this.open();
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        ids.forEach((id, order) => {
+            const req = store.get(id);
+            req.onsuccess = () => {
+                if (req.result) store.put({ ...req.result, order });
+            };
+        });
+        await done(tx);
+    }
+
+    async listOrnaments(): Promise<StoredOrnament[]> {
+        const db = await this.open();
+        const ornaments = await promisify(db.transaction(ORNAMENTS, 'readonly').objectStore(ORNAMENTS).getAll()) as StoredOrnament[];
+        return ornaments.sort((a, b) => a.order - b.order);
+    }
+
+    async putOrnament(ornament: StoredOrnament) {
+        const db = await this.open();
+        const tx = db.transaction(ORNAMENTS, 'readwrite');
+        tx.objectStore(ORNAMENTS).put(ornament);
+        await done(tx);
+    }
+
+    async removeOrnament(id: string) {
+        const db = await this.open();
+        const tx = db.transaction(ORNAMENTS, 'readwrite');
+        tx.objectStore(ORNAMENTS).delete(id);
+        await done(tx);
+    }
+}
+
+// 不落盘的照片库，页面关闭即消失
+export class MemoryPhotoStore implements PhotoLibrary {
+    private photos = new Map<string, StoredPhoto>();
+    private ornaments = new Map<string, StoredOrnament>();
+
+    async list(): Promise<StoredPhoto[]> {
+        return Array.from(this.photos.values()).sort((a, b) => a.order - b.order);
+    }
+
+    async put(...photos: StoredPhoto[]) {
+        photos.forEach(p => this.photos.set(p.id, p));
+    }
+
+    async remove(id: string) {
+        this.photos.delete(id);
+    }
+
+    async setOrder(ids: string[]) {
+        ids.forEach((id, order) => {
+            const photo = this.photos.get(id);
+            if (photo) this.photos.set(id, { ...photo, order });
+        });
+    }
+
+    async listOrnaments(): Promise<StoredOrnament[]> {
+        return Array.from(this.ornaments.values()).sort((a, b) => a.order - b.order);
+    }
+
+    async putOrnament(ornament: StoredOrnament) {
+        this.ornaments.set(ornament.id, ornament);
+    }
+
+    async removeOrnament(id: string) {
+        this.ornaments.delete(id);
+    }
+}
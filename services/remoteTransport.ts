@@ -0,0 +1,121 @@
+import { REMOTE_VERSION, RemoteMessage, parseRemoteEnvelope } from '../input/remoteProtocol';
+
+// --- 遥控消息的两种传输：同一台机器用 BroadcastChannel，手机经本地中继（npm run relay）用 WebSocket ---
+
+export type TransportStatus = 'connecting' | 'open' | 'closed';
+
+export interface RemoteTransport {
+    kind: 'local' | 'relay';
+    status: TransportStatus;
+    send(msg: RemoteMessage): void;
+    close(): void;
+}
+
+export type RemoteReceiver = (msg: RemoteMessage) => void;
+
+// 重连间隔从 1 秒起翻倍，最长 15 秒
+const RETRY_MS = 1000;
+const MAX_RETRY_MS = 15000;
+
+export const createPeerId = () => Math.random().toString(36).slice(2, 10);
+
+const encode = (from: string, msg: RemoteMessage) => JSON.stringify({ v: REMOTE_VERSION, from, msg });
+
+export class BroadcastTransport implements RemoteTransport {
+    kind = 'local' as const;
+    status: TransportStatus = 'open';
+    channel: BroadcastChannel;
+    id: string;
+
+    constructor(code: string, id: string, receive: RemoteReceiver) {
+        this.id = id;
+        this.channel = new BroadcastChannel(`meow-holiday-remote-${code}`);
+        this.channel.onmessage = e => {
+            const envelope = parseRemoteEnvelope(e.data);
+            if (envelope && envelope.from !== id) receive(envelope.msg);
+        };
+    }
+
+    send(msg: RemoteMessage) {
+        if (this.status === 'open') this.channel.postMessage(encode(this.id, msg));
+    }
+
+    close() {
+        this.status = 'closed';
+        this.channel.close();
+    }
+}
+
+/**
+ * WebSocket to the local relay, which forwards every message to the other
+ * peers in the same room (the pairing code). Drops are retried with backoff
+ * until `close()`; messages sent while disconnected are dropped, since the
+ * controller asks for fresh state with `hello` whenever it reconnects.
+ */
+export class RelayTransport implements RemoteTransport {
+    kind = 'relay' as const;
+    status: TransportStatus = 'connecting';
+    url: string;
+    id: string;
+    socket: WebSocket | null = null;
+    retries = 0;
+    timer = 0;
+    receive: RemoteReceiver;
+    onStatus: (status: TransportStatus) => void;
+
+    constructor(relay: string, code: string, id: string, receive: RemoteReceiver, onStatus: (status: TransportStatus) => void = () => {}) {
+        this.url = `${relay.replace(/\/$/, '')}/?room=${code}`;
+        this.id = id;
+        this.receive = receive;
+        this.onStatus = onStatus;
+        this.connect();
+    }
+
+    private connect() {
+        const socket = new WebSocket(this.url);
+        this.socket = socket;
+        socket.onopen = () => {
+            this.retries = 0;
+            this.setStatus('open');
+        };
+        socket.onmessage = e => {
+            const envelope = parseRemoteEnvelope(e.data);
+            if (envelope && envelope.from !== this.id) this.receive(envelope.msg);
+        };
+        // 连接失败时也会收到 close，统一在这里重连
+        socket.onclose = () => {
+            if (this.socket !== socket || this.status === 'closed') return;
+            this.socket = null;
+            this.setStatus('connecting');
+            this.timer = window.setTimeout(() => this.connect(), Math.min(RETRY_MS * 2 ** this.retries++, MAX_RETRY_MS));
+        };
+    }
+
+    private setStatus(status: TransportStatus) {
+        if (status === this.status) return;
+        this.status = status;
+        this.onStatus(status);
+    }
+
+    send(msg: RemoteMessage) {
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(encode(this.id, msg));
+    }
+
+    close() {
+        this.status = 'closed';
+        window.clearTimeout(this.timer);
+        this.socket?.close();
+        this.socket = null;
+    }
+}
+
+// 中继报告的局域网地址，显示端用它拼出手机能打开的链接；中继没开时返回空列表
+export async function fetchRelayAddresses(host: string, port: number): Promise<string[]> {
+    try {
+        const res = await fetch(`http://${host}:${port}/info`);
+        const info = await res.json();
+        return Array.isArray(info?.addresses) ? info.addresses.filter((a: unknown) => typeof a === 'string') : [];
+    } catch(e) {
+        return [];
+    }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseSetting, settingRange } from './settings';
+import { validateConfig } from './treeArchive';
+import { CONFIG } from '../config';
+
+describe('countdown finale setting', () => {
+    const finale = settingRange('countdown.finale')!;
+
+    it('accepts the formations offered in the formation bar', () => {
+        expect(parseSetting(finale, 'tree')).toBe('tree');
+        expect(parseSetting(finale, 'heart')).toBe('heart');
+    });
+
+    it('rejects hidden and unknown formations', () => {
+        expect(parseSetting(finale, 'focus')).toBeNull();
+        expect(parseSetting(finale, 'moon')).toBeNull();
+    });
+
+    it('rejects a hidden formation in imported config', () => {
+        expect(() => validateConfig(CONFIG, { countdown: { finale: 'focus' } })).toThrow(/countdown\.finale/);
+    });
+});
@@ -0,0 +1,278 @@
+import { CONFIG, assignConfig } from '../config';
+import { WEATHER_PRESETS } from '../scene/weather';
+import { resolveTarget } from '../scene/countdown';
+import { listFormations } from '../scene/formations/formation';
+
+// --- 运行时设置：CONFIG 中可调项的范围与默认值，持久化到 localStorage，可被 URL 参数覆盖 ---
+
+// live：下一帧直接生效；layout：重新排布粒子；rebuild：重建树上的粒子（照片保留）
+export type SettingApply = 'live' | 'layout' | 'rebuild';
+
+export interface SettingSpec {
+    // CONFIG 里的路径，同时也是 URL 参数名，如 ?tree.height=22
+    path: string;
+    label: string;
+    group: string;
+    type: 'number' | 'int' | 'color' | 'boolean' | 'text';
+    min?: number;
+    // text 类型时是最多的字数
+    max?: number;
+    step?: number;
+    apply: SettingApply;
+    // 更短的 URL 参数别名
+    param?: string;
+    // int 类型的取值名称，面板上显示名称而不是数字
+    options?: string[];
+    // text 类型的额外检查，如倒计时目标要能解析成时刻
+    accept?: (text: string) => boolean;
+    // 不在设置面板上列出，由别的面板编辑
+    hidden?: boolean;
+}
+
+export type SettingValue = number | boolean | string;
+
+// 取值范围：SETTINGS 里的每一项都是，另有一些不在面板上的数值
+export type SettingRange = Pick<SettingSpec, 'path' | 'type' | 'min' | 'max' | 'accept'>;
+
+const STORAGE_KEY = 'meow-holiday-tree-settings';
+
+export const SETTINGS: SettingSpec[] = [
+    { path: 'tree.height', label: 'HEIGHT', group: 'TREE', type: 'number', min: 10, max: 30, step: 0.5, apply: 'rebuild' },
+    { path: 'tree.baseRadius', label: 'RADIUS', group: 'TREE', type: 'number', min: 3, max: 12, step: 0.1, apply: 'rebuild' },
+    { path: 'tree.tiers', label: 'TIERS', group: 'TREE', type: 'int', min: 3, max: 12, apply: 'rebuild' },
+    { path: 'tree.particles', label: 'PARTICLES', group: 'TREE', type: 'int', min: 1000, max: 12000, step: 500, apply: 'rebuild' },
+    { path: 'tree.trunkHeight', label: 'TRUNK HEIGHT', group: 'TREE', type: 'number', min: 1, max: 6, step: 0.1, apply: 'rebuild' },
+    { path: 'tree.trunkRadius', label: 'TRUNK RADIUS', group: 'TREE', type: 'number', min: 0.2, max: 2, step: 0.05, apply: 'rebuild' },
+    { path: 'layout.seed', label: 'SEED', group: 'TREE', type: 'int', min: 1, max: 99999, apply: 'rebuild', param: 'seed' },
+
+    { path: 'snow.intensity', label: 'INTENSITY', group: 'SNOW', type: 'int', min: 0, max: WEATHER_PRESETS.length - 1, apply: 'live', param: 'weather', options: WEATHER_PRESETS.map(p => p.label) },
+    { path: 'snow.wind', label: 'WIND', group: 'SNOW', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+    { path: 'snow.gust', label: 'GUSTS', group: 'SNOW', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+    { path: 'snow.settle', label: 'SETTLING', group: 'SNOW', type: 'boolean', apply: 'live' },
+    { path: 'snow.bounds.x', label: 'WIDTH', group: 'SNOW', type: 'number', min: 20, max: 160, step: 5, apply: 'live' },
+    { path: 'snow.bounds.y', label: 'HEIGHT', group: 'SNOW', type: 'number', min: 20, max: 120, step: 5, apply: 'live' },
+    { path: 'snow.bounds.z', label: 'DEPTH', group: 'SNOW', type: 'number', min: 20, max: 160, step: 5, apply: 'live' },
+
+    { path: 'interaction.focusScale', label: 'FOCUS SCALE', group: 'PHOTOS', type: 'number', min: 1, max: 6, step: 0.1, apply: 'layout' },
+    { path: 'interaction.focusZ', label: 'FOCUS DISTANCE', group: 'PHOTOS', type: 'number', min: 20, max: 45, step: 0.5, apply: 'layout' },
+    { path: 'interaction.hoverScaleMultiplier', label: 'HOVER SCALE', group: 'PHOTOS', type: 'number', min: 1, max: 2, step: 0.05, apply: 'live' },
+    { path: 'slideshow.interval', label: 'SLIDE SECONDS', group: 'PHOTOS', type: 'number', min: 2, max: 30, step: 0.5, apply: 'live' },
+    { path: 'slideshow.idleStart', label: 'IDLE SLIDESHOW', group: 'PHOTOS', type: 'int', min: 0, max: 600, step: 10, apply: 'live' },
+
+    { path: 'field.radius', label: 'REACH', group: 'HAND', type: 'number', min: 1, max: 10, step: 0.5, apply: 'live' },
+    { path: 'field.push', label: 'PUSH', group: 'HAND', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+    { path: 'field.gather', label: 'GATHER', group: 'HAND', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+    { path: 'field.shake', label: 'SHAKE', group: 'HAND', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+
+    { path: 'countdown.timer', label: 'TIMER', group: 'COUNTDOWN', type: 'boolean', apply: 'live' },
+    { path: 'countdown.fireworks', label: 'FIREWORKS', group: 'COUNTDOWN', type: 'number', min: 0, max: 3, step: 0.1, apply: 'live' },
+    // 这三项在倒计时面板上改
+    { path: 'countdown.target', label: 'TARGET', group: 'COUNTDOWN', type: 'text', apply: 'live', param: 'countdown', hidden: true, accept: t => resolveTarget(t, Date.now()) !== null },
+    { path: 'countdown.greeting', label: 'GREETING', group: 'COUNTDOWN', type: 'text', max: 40, apply: 'live', param: 'greeting', hidden: true },
+    // 只能落回阵型栏上有的阵型；聚焦这类隐藏的阵型没有照片时什么也不做，粒子会一直散着
+    { path: 'countdown.finale', label: 'FINALE', group: 'COUNTDOWN', type: 'text', apply: 'live', hidden: true, accept: id => listFormations().some(f => f.id === id && !f.hidden) },
+
+    { path: 'camera.fov', label: 'FIELD OF VIEW', group: 'CAMERA', type: 'int', min: 25, max: 75, apply: 'live', param: 'fov' },
+    { path: 'camera.flight', label: 'FLIGHT SECONDS', group: 'CAMERA', type: 'number', min: 0.3, max: 4, step: 0.1, apply: 'live' },
+
+    { path: 'colors.gold', label: 'GOLD', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.red', label: 'RED', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.trunk', label: 'TRUNK', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.star', label: 'STAR', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.love', label: 'LOVE', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.hoverGlow', label: 'HOVER GLOW', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.lightLow', label: 'LIGHTS', group: 'COLOURS', type: 'color', apply: 'live' },
+    { path: 'colors.lightHigh', label: 'LIGHTS WARM', group: 'COLOURS', type: 'color', apply: 'live' },
+
+    { path: 'ambient.swayAmount', label: 'SWAY', group: 'MOTION', type: 'number', min: 0, max: 0.5, step: 0.01, apply: 'live' },
+    { path: 'ambient.swaySpeed', label: 'SWAY SPEED', group: 'MOTION', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+    { path: 'ambient.colorShiftSpeed', label: 'LIGHT SHIFT', group: 'MOTION', type: 'number', min: 0, max: 2, step: 0.05, apply: 'live' },
+
+    { path: 'render.exposure', label: 'EXPOSURE', group: 'GLOW', type: 'number', min: 0.5, max: 4, step: 0.05, apply: 'live' },
+    { path: 'render.bloomStrength', label: 'BLOOM', group: 'GLOW', type: 'number', min: 0, max: 3, step: 0.05, apply: 'live' },
+    { path: 'render.bloomRadius', label: 'BLOOM RADIUS', group: 'GLOW', type: 'number', min: 0, max: 1, step: 0.05, apply: 'live' },
+    { path: 'render.bloomThreshold', label: 'BLOOM THRESHOLD', group: 'GLOW', type: 'number', min: 0, max: 1, step: 0.05, apply: 'live' },
+    { path: 'atmosphere.fogDensity', label: 'FOG', group: 'GLOW', type: 'number', min: 0, max: 0.03, step: 0.001, apply: 'live' },
+
+    { path: 'quality.auto', label: 'ADAPTIVE', group: 'PERFORMANCE', type: 'boolean', apply: 'live' },
+    { path: 'quality.tier', label: 'QUALITY TIER', group: 'PERFORMANCE', type: 'int', min: 0, max: 4, apply: 'live', param: 'quality' },
+    { path: 'quality.stats', label: 'STATS', group: 'PERFORMANCE', type: 'boolean', apply: 'live', param: 'stats' }
+];
+
+// 面板上没有、但存档和宿主传入的配置里也要限定范围的项；太大的数会让页面卡死
+const LIMITS: SettingRange[] = [
+    { path: 'snow.capacity', type: 'int', min: 0, max: 20000 },
+    { path: 'interaction.lerpFactor', type: 'number', min: 0.01, max: 1 },
+    { path: 'textures.treeSize', type: 'int', min: 64, max: 2048 },
+    { path: 'textures.focusSize', type: 'int', min: 256, max: 8192 },
+    { path: 'textures.budgetMB', type: 'number', min: 16, max: 2048 },
+    { path: 'text.depth', type: 'number', min: 0, max: 10 },
+    { path: 'audio.sensitivity', type: 'number', min: 0.25, max: 3 },
+    { path: 'remote.relayPort', type: 'int', min: 1, max: 65535 },
+    { path: 'colors.snow', type: 'color' },
+    { path: 'atmosphere.background', type: 'color' },
+    { path: 'atmosphere.fog', type: 'color' },
+    { path: 'hud.accent', type: 'color' },
+    { path: 'hud.alert', type: 'color' }
+];
+
+export const settingRange = (path: string): SettingRange | undefined => SETTINGS.find(s => s.path === path) ?? LIMITS.find(l => l.path === path);
+
+// 写成给人看的范围，如 "a whole number from 1000 to 12000"
+export function describeRange(range: SettingRange) {
+    if (range.type === 'boolean') return 'true or false';
+    if (range.type === 'color') return 'a colour from 0x000000 to 0xffffff';
+    if (range.type === 'text') return range.max !== undefined ? `text of at most ${range.max} characters` : 'a supported value';
+    const kind = range.type === 'int' ? 'a whole number' : 'a number';
+    if (range.min !== undefined && range.max !== undefined) return `${kind} from ${range.min} to ${range.max}`;
+    if (range.min !== undefined) return `${kind} of at least ${range.min}`;
+    return range.max !== undefined ? `${kind} of at most ${range.max}` : kind;
+}
+
+const readPath = (path: string): unknown => path.split('.').reduce<any>((o, k) => o?.[k], CONFIG);
+
+function writePath(path: string, value: unknown) {
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    const parent = keys.reduce<any>((o, k) => o[k], CONFIG);
+    parent[last] = value;
+}
+
+// 模块加载时的 CONFIG 就是默认值
+const DEFAULTS = new Map(SETTINGS.map(s => [s.path, readPath(s.path) as SettingValue]));
+
+export const getSetting = (spec: SettingSpec) => readPath(spec.path) as SettingValue;
+export const defaultSetting = (spec: SettingSpec) => DEFAULTS.get(spec.path)!;
+
+/**
+ * Turns a raw value from the panel, storage or a URL into a valid setting:
+ * numbers are clamped into range (and rounded for `int`), colours accept
+ * numbers, `#rrggbb` or `rrggbb`, switches accept booleans and true/false,
+ * on/off, 1/0 (a bare `?stats` counts as on), text is trimmed and must be
+ * non-empty. Returns null for anything unusable.
+ */
+export function parseSetting(spec: SettingRange, raw: unknown): SettingValue | null {
+    if (spec.type === 'text') {
+        const text = typeof raw === 'string' ? raw.trim().slice(0, spec.max) : '';
+        return text && (!spec.accept || spec.accept(text)) ? text : null;
+    }
+    if (spec.type === 'boolean') {
+        if (typeof raw === 'boolean') return raw;
+        const text = typeof raw === 'string' ? raw.trim().toLowerCase() : null;
+        if (text === '' || text === 'true' || text === 'on' || text === '1') return true;
+        if (text === 'false' || text === 'off' || text === '0') return false;
+        return null;
+    }
+    if (spec.type === 'color') {
+        if (typeof raw === 'number') return Number.isInteger(raw) && raw >= 0 && raw <= 0xffffff ? raw : null;
+        const m = typeof raw === 'string' ? /^#?([0-9a-f]{6})$/i.exec(raw.trim()) : null;
+        return m ? parseInt(m[1], 16) : null;
+    }
+    const n = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    if (typeof n !== 'number' || !Number.isFinite(n)) return null;
+    const v = Math.min(spec.max ?? Infinity, Math.max(spec.min ?? -Infinity, n));
+    return spec.type === 'int' ? Math.round(v) : v;
+}
+
+export function formatSetting(spec: SettingSpec, value: SettingValue) {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 'on' : 'off';
+    if (spec.options) return spec.options[value] ?? String(value);
+    return spec.type === 'color' ? '#' + value.toString(16).padStart(6, '0') : String(+value.toFixed(3));
+}
+
+export class SettingsStore {
+    // 用户改过的值（路径 → 值），只保存与默认值不同的项
+    saved: Record<string, SettingValue> = {};
+
+    // 先套用保存的设置，再套用 URL 参数；URL 参数只对本次打开有效，不写回存储
+    load(search: string) {
+        try {
+            const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+            SETTINGS.forEach(spec => {
+                const value = parseSetting(spec, raw?.[spec.path]);
+                if (value === null) return;
+                this.saved[spec.path] = value;
+                writePath(spec.path, value);
+            });
+        } catch(e) {
+            console.warn("Settings could not be read", e);
+        }
+
+        const params = new URLSearchParams(search);
+        SETTINGS.forEach(spec => {
+            const raw = params.get(spec.path) ?? (spec.param ? params.get(spec.param) : null);
+            const value = raw === null ? null : parseSetting(spec, raw);
+            if (value !== null) writePath(spec.path, value);
+        });
+    }
+
+    // 返回写入 CONFIG 的值；无效时不改动并返回 null
+    set(spec: SettingSpec, raw: unknown): SettingValue | null {
+        const value = parseSetting(spec, raw);
+        if (value === null) return null;
+        this.keep(spec, value);
+        this.persist();
+        return value;
+    }
+
+    /**
+     * Writes a whole (already validated) config from an imported archive
+     * into CONFIG. Values that are settings go through the same
+     * parsing as `set` and are saved, so they survive a reload and show up
+     * in `shareUrl`; everything else is assigned as is.
+     */
+    assign(config: Record<string, unknown>) {
+        const rest = structuredClone(config);
+        SETTINGS.forEach(spec => {
+            const keys = spec.path.split('.');
+            const last = keys.pop()!;
+            const parent = keys.reduce<any>((o, k) => o?.[k], rest);
+            if (!parent || !(last in parent)) return;
+            const value = parseSetting(spec, parent[last]);
+            delete parent[last];
+            if (value !== null) this.keep(spec, value);
+        });
+        assignConfig(CONFIG, rest);
+        this.persist();
+    }
+
+    // 换主题时丢掉主题覆盖到的那些手动调整（按路径前缀）
+    forget(prefixes: string[]) {
+        Object.keys(this.saved).filter(path => prefixes.some(p => path.startsWith(p))).forEach(path => delete this.saved[path]);
+        this.persist();
+    }
+
+    reset() {
+        SETTINGS.forEach(spec => writePath(spec.path, defaultSetting(spec)));
+        this.saved = {};
+        this.persist();
+    }
+
+    // 当前所有非默认值组成的链接，打开即得到同样的配置
+    shareUrl(base: string): string {
+        const url = new URL(base);
+        SETTINGS.forEach(spec => {
+            url.searchParams.delete(spec.path);
+            if (spec.param) url.searchParams.delete(spec.param);
+            const value = getSetting(spec);
+            const text = formatSetting(spec, value);
+            if (value !== defaultSetting(spec)) url.searchParams.set(spec.param ?? spec.path, spec.type === 'color' ? text.slice(1) : text);
+        });
+        return url.toString();
+    }
+
+    private keep(spec: SettingSpec, value: SettingValue) {
+        writePath(spec.path, value);
+        if (value === defaultSetting(spec)) delete this.saved[spec.path];
+        else this.saved[spec.path] = value;
+    }
+
+    private persist() {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.saved));
+        } catch(e) {
+            console.warn("Settings could not be saved", e);
+        }
+    }
+}
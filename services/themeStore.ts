@@ -0,0 +1,85 @@
+import { assignConfig } from '../config';
+import { THEMES, Theme, ThemePalette } from '../scene/theme';
+import { validateConfig } from './treeArchive';
+
+// --- 主题的本地持久化：当前选中的主题和用户保存的自定义主题 ---
+
+const STORAGE_KEY = 'meow-holiday-tree-themes';
+
+interface StoredThemes {
+    selected?: string;
+    custom?: { id: string; label: string; palette: unknown }[];
+}
+
+export class ThemeStore {
+    custom: Theme[] = [];
+    selected = THEMES[0].id;
+
+    get all(): Theme[] {
+        return [...THEMES, ...this.custom];
+    }
+
+    find(id: string): Theme | undefined {
+        return this.all.find(t => t.id === id);
+    }
+
+    // 读出保存的主题；?theme= 只对本次打开有效。损坏的自定义主题直接丢掉
+    load(search: string): Theme {
+        try {
+            const raw: StoredThemes = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+            this.custom = (raw.custom ?? []).flatMap(t => {
+                try {
+                    return [{ id: String(t.id), label: String(t.label), custom: true, palette: this.parsePalette(t.palette) }];
+                } catch(e) {
+                    console.warn(`Theme ${t.label} could not be read`, e);
+                    return [];
+                }
+            });
+            if (raw.selected && this.find(raw.selected)) this.selected = raw.selected;
+        } catch(e) {
+            console.warn("Themes could not be read", e);
+        }
+        const param = new URLSearchParams(search).get('theme');
+        const theme = (param && this.find(param)) || this.find(this.selected)!;
+        this.selected = theme.id;
+        return theme;
+    }
+
+    select(id: string) {
+        this.selected = id;
+        this.persist();
+    }
+
+    save(label: string, palette: ThemePalette): Theme {
+        const theme: Theme = { id: `custom-${Date.now().toString(36)}`, label: label.toUpperCase(), custom: true, palette };
+        this.custom.push(theme);
+        this.selected = theme.id;
+        this.persist();
+        return theme;
+    }
+
+    remove(id: string) {
+        this.custom = this.custom.filter(t => t.id !== id);
+        if (this.selected === id) this.selected = THEMES[0].id;
+        this.persist();
+    }
+
+    // 以经典主题为模板校验，缺少的项沿用经典主题的值
+    private parsePalette(raw: unknown): ThemePalette {
+        const palette: ThemePalette = JSON.parse(JSON.stringify(THEMES[0].palette));
+        assignConfig(palette, validateConfig(THEMES[0].palette as unknown as Record<string, unknown>, raw, 'theme'));
+        return palette;
+    }
+
+    private persist() {
+        const data: StoredThemes = {
+            selected: this.selected,
+            custom: this.custom.map(({ id, label, palette }) => ({ id, label, palette }))
+        };
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+        } catch(e) {
+            console.warn("Themes could not be saved", e);
+        }
+    }
+}
@@ -0,0 +1,203 @@
+import { zip, unzip, strToU8, strFromU8, AsyncZippable } from 'fflate';
+import { StoredPhoto, StoredOrnament, createPhotoId } from './photoStore';
+import { TreePin, parsePin } from '../scene/placement';
+import { isOrnamentKind } from '../scene/ornaments';
+import { describeRange, parseSetting, settingRange } from './settings';
+
+// --- “记忆之树”导出/导入：一个 zip，里面是 manifest.json 加 photos/ 目录（自定义图片挂饰在 ornaments/ 里） ---
+
+export const ARCHIVE_FORMAT = 'meow-memory-tree';
+export const ARCHIVE_VERSION = 1;
+const MANIFEST = 'manifest.json';
+
+export interface ArchivePhoto {
+    file: string;
+    name: string;
+    type: string;
+    caption?: string;
+    takenAt?: number;
+    pin?: TreePin;
+}
+
+export interface ArchiveOrnament {
+    kind: string;
+    name: string;
+    pin?: TreePin;
+    // 只有自定义图片挂饰才有
+    file?: string;
+    type?: string;
+}
+
+export interface ArchiveManifest {
+    format: string;
+    version: number;
+    createdAt: string;
+    mode: string;
+    config: Record<string, unknown>;
+    photos: ArchivePhoto[];
+    // 早先的存档没有这一项
+    ornaments?: ArchiveOrnament[];
+}
+
+export interface TreeSnapshot {
+    mode: string;
+    config: Record<string, unknown>;
+    photos: StoredPhoto[];
+    ornaments: StoredOrnament[];
+}
+
+export class ArchiveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ArchiveError';
+    }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Checks `incoming` against the shape of `template` (the live CONFIG) and
+ * returns a copy holding only known keys. Missing keys are left out so older
+ * archives keep the current defaults for settings they did not know about.
+ * Values with a range in the settings schema must lie inside it; `prefix` is
+ * the CONFIG path of `template` used to look those ranges up.
+ */
+export function validateConfig(template: Record<string, unknown>, incoming: unknown, path = 'config', prefix = ''): Record<string, unknown> {
+    if (!isObject(incoming)) throw new ArchiveError(`${path} must be an object`);
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(template)) {
+        if (!(key in incoming)) continue;
+        const expected = template[key];
+        const value = incoming[key];
+        const at = `${path}.${key}`;
+        const range = settingRange(prefix + key);
+        if (isObject(expected)) {
+            out[key] = validateConfig(expected, value, at, `${prefix}${key}.`);
+        } else if (Array.isArray(expected)) {
+            if (!Array.isArray(value) || value.length === 0 || value.some(v => typeof v !== typeof expected[0] || (typeof v === 'number' && !Number.isFinite(v)))) {
+                throw new ArchiveError(`${at} must be a non-empty list of ${typeof expected[0]}s`);
+            }
+            out[key] = value.slice();
+        } else if (typeof expected === 'number') {
+            if (typeof value !== 'number' || !Number.isFinite(value)) throw new ArchiveError(`${at} must be a number`);
+            if (range && parseSetting(range, value) !== value) throw new ArchiveError(`${at} must be ${describeRange(range)}, got ${value}`);
+            out[key] = value;
+        } else if (typeof value !== typeof expected) {
+            throw new ArchiveError(`${at} must be a ${typeof expected}`);
+        } else if (typeof value === 'string' && range && parseSetting(range, value) !== value) {
+            throw new ArchiveError(`${at} must be ${describeRange(range)}, got "${value}"`);
+        } else {
+            out[key] = value;
+        }
+    }
+    return out;
+}
+
+const extensionOf = (name: string, type: string) => {
+    const m = /\.([a-z0-9]+)$/i.exec(name);
+    if (m) return m[1].toLowerCase();
+    return type.split('/')[1] || 'bin';
+};
+
+export async function exportArchive(snapshot: TreeSnapshot): Promise<Blob> {
+    const files: AsyncZippable = {};
+    const photos: ArchivePhoto[] = [];
+    for (let i = 0; i < snapshot.photos.length; i++) {
+        const p = snapshot.photos[i];
+        const file = `photos/${String(i).padStart(3, '0')}.${extensionOf(p.name, p.blob.type)}`;
+        // 图片本身已经压缩过，直接存储即可
+        files[file] = [new Uint8Array(await p.blob.arrayBuffer()), { level: 0 }];
+        photos.push({ file, name: p.name, type: p.blob.type, caption: p.caption, takenAt: p.takenAt, pin: p.pin });
+    }
+    const ornaments: ArchiveOrnament[] = [];
+    for (let i = 0; i < snapshot.ornaments.length; i++) {
+        const o = snapshot.ornaments[i];
+        const entry: ArchiveOrnament = { kind: o.kind, name: o.name, pin: o.pin };
+        if (o.image) {
+            entry.file = `ornaments/${String(i).padStart(3, '0')}.${extensionOf(o.name, o.image.type)}`;
+            entry.type = o.image.type;
+            files[entry.file] = [new Uint8Array(await o.image.arrayBuffer()), { level: 0 }];
+        }
+        ornaments.push(entry);
+    }
+
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        createdAt: new Date().toISOString(),
+        mode: snapshot.mode,
+        config: snapshot.config,
+        photos,
+        ornaments
+    };
+    files[MANIFEST] = strToU8(JSON.stringify(manifest, null, 2));
+
+    const data = await new Promise<Uint8Array>((resolve, reject) => {
+        zip(files, (err, out) => err ? reject(err) : resolve(out));
+    });
+    return new Blob([data], { type: 'application/zip' });
+}
+
+export async function importArchive(file: Blob, configTemplate: Record<string, unknown>, modes: string[]): Promise<TreeSnapshot> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+        unzip(bytes, (err, out) => err ? reject(new ArchiveError('This file is not a readable zip archive')) : resolve(out));
+    });
+
+    if (!entries[MANIFEST]) throw new ArchiveError(`The archive has no ${MANIFEST}`);
+    let raw: unknown;
+    try {
+        raw = JSON.parse(strFromU8(entries[MANIFEST]));
+    } catch {
+        throw new ArchiveError(`${MANIFEST} is not valid JSON`);
+    }
+    if (!isObject(raw) || raw.format !== ARCHIVE_FORMAT) throw new ArchiveError('This is not a memory tree archive');
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+        throw new ArchiveError('The archive version is missing or invalid');
+    }
+    if (raw.version > ARCHIVE_VERSION) {
+        throw new ArchiveError(`The archive was made by a newer version (format ${raw.version}, this app reads up to ${ARCHIVE_VERSION})`);
+    }
+    if (typeof raw.mode !== 'string' || !modes.includes(raw.mode)) throw new ArchiveError(`Unknown mode "${String(raw.mode)}"`);
+    if (!Array.isArray(raw.photos)) throw new ArchiveError('photos must be a list');
+    if (raw.ornaments !== undefined && !Array.isArray(raw.ornaments)) throw new ArchiveError('ornaments must be a list');
+
+    const config = validateConfig(configTemplate, raw.config ?? {});
+    const photos = raw.photos.map((entry, order): StoredPhoto => {
+        const at = `photos[${order}]`;
+        if (!isObject(entry) || typeof entry.file !== 'string' || typeof entry.name !== 'string') {
+            throw new ArchiveError(`${at} needs a file and a name`);
+        }
+        if (entry.caption !== undefined && typeof entry.caption !== 'string') throw new ArchiveError(`${at}.caption must be text`);
+        if (entry.takenAt !== undefined && (typeof entry.takenAt !== 'number' || !Number.isFinite(entry.takenAt))) {
+            throw new ArchiveError(`${at}.takenAt must be a timestamp`);
+        }
+        const pin = readPin(entry.pin, at);
+        const data = entries[entry.file];
+        if (!data) throw new ArchiveError(`${at} refers to ${entry.file}, which is not in the archive`);
+        const type = typeof entry.type === 'string' ? entry.type : '';
+        return { id: createPhotoId(), blob: new Blob([data], { type }), name: entry.name, order, caption: entry.caption as string | undefined, takenAt: entry.takenAt as number | undefined, pin };
+    });
+    const ornaments = (raw.ornaments as unknown[] ?? []).map((entry, order): StoredOrnament => {
+        const at = `ornaments[${order}]`;
+        if (!isObject(entry) || typeof entry.name !== 'string') throw new ArchiveError(`${at} needs a name`);
+        if (!isOrnamentKind(entry.kind)) throw new ArchiveError(`${at} has an unknown kind "${String(entry.kind)}"`);
+        const pin = readPin(entry.pin, at);
+        const ornament: StoredOrnament = { id: createPhotoId(), kind: entry.kind, name: entry.name, order, pin };
+        if (entry.kind === 'image') {
+            const data = typeof entry.file === 'string' ? entries[entry.file] : undefined;
+            if (!data) throw new ArchiveError(`${at} is an image ornament without its image file`);
+            ornament.image = new Blob([data], { type: typeof entry.type === 'string' ? entry.type : '' });
+        }
+        return ornament;
+    });
+
+    return { mode: raw.mode, config, photos, ornaments };
+}
+
+function readPin(raw: unknown, at: string): TreePin | undefined {
+    if (raw === undefined) return undefined;
+    const pin = parsePin(raw);
+    if (!pin) throw new ArchiveError(`${at}.pin must have a numeric height and angle`);
+    return pin;
+}
@@ -0,0 +1,95 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+// --- 手势识别运行时：优先使用随构建发布的本地 WASM 与模型，离线也能用 ---
+
+export type VisionStatus = 'loading' | 'ready' | 'off' | 'camera-denied' | 'no-camera' | 'model-failed' | 'unsupported';
+
+export class VisionError extends Error {
+    kind: VisionStatus;
+
+    constructor(kind: VisionStatus, message: string) {
+        super(message);
+        this.name = 'VisionError';
+        this.kind = kind;
+    }
+}
+
+// vite.config.ts 里的 mediapipeAssets 插件负责在开发和构建时提供这些文件
+const LOCAL_WASM = 'mediapipe/wasm';
+const LOCAL_MODEL = 'mediapipe/hand_landmarker.task';
+const CDN_WASM = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm';
+const CDN_MODEL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const local = (path: string) => new URL(path, document.baseURI).href;
+
+export function checkSupport() {
+    if (typeof WebAssembly === 'undefined') throw new VisionError('unsupported', 'This browser cannot run WebAssembly');
+    if (!navigator.mediaDevices?.getUserMedia) {
+        throw new VisionError('unsupported', window.isSecureContext ? 'This browser has no camera API' : 'Camera needs HTTPS or localhost');
+    }
+}
+
+export interface LoadedLandmarker {
+    landmarker: HandLandmarker;
+    delegate: 'GPU' | 'CPU';
+    source: 'local' | 'cdn';
+}
+
+/**
+ * Tries the self-hosted model before the CDN one, and the GPU delegate before
+ * the CPU one, returning the first combination that loads.
+ */
+export async function loadHandLandmarker(numHands: number): Promise<LoadedLandmarker> {
+    checkSupport();
+    const attempts: [string, string, LoadedLandmarker['source']][] = [
+        [local(LOCAL_WASM), local(LOCAL_MODEL), 'local'],
+        [CDN_WASM, CDN_MODEL, 'cdn']
+    ];
+    let lastError: unknown;
+    for (const [wasm, model, source] of attempts) {
+        // 本地模型没有随构建发布时直接跳过，免得 GPU/CPU 各失败一次
+        if (source === 'local' && !(await fetch(model, { method: 'HEAD' }).then(r => r.ok, () => false))) continue;
+        let fileset;
+        try {
+            fileset = await FilesetResolver.forVisionTasks(wasm);
+        } catch(e) {
+            lastError = e;
+            continue;
+        }
+        for (const delegate of ['GPU', 'CPU'] as const) {
+            try {
+                const landmarker = await HandLandmarker.createFromOptions(fileset, {
+                    baseOptions: { modelAssetPath: model, delegate },
+                    runningMode: 'VIDEO', numHands
+                });
+                return { landmarker, delegate, source };
+            } catch(e) {
+                console.warn(`Hand model (${source}, ${delegate}) failed`, e);
+                lastError = e;
+            }
+        }
+    }
+    throw new VisionError('model-failed', `Hand tracking model could not be loaded${lastError instanceof Error ? `: ${lastError.message}` : ''}`);
+}
+
+export async function openCamera(video: HTMLVideoElement): Promise<MediaStream> {
+    checkSupport();
+    let stream: MediaStream;
+    try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 } });
+    } catch(e) {
+        const name = (e as DOMException)?.name;
+        if (name === 'NotAllowedError' || name === 'SecurityError') throw new VisionError('camera-denied', 'Camera access was denied');
+        if (name === 'NotFoundError' || name === 'OverconstrainedError') throw new VisionError('no-camera', 'No camera was found');
+        if (name === 'NotReadableError') throw new VisionError('no-camera', 'The camera is in use by another application');
+        throw new VisionError('no-camera', `Camera could not be opened${name ? ` (${name})` : ''}`);
+    }
+    video.srcObject = stream;
+    return stream;
+}
+
+// 停掉摄像头的所有轨道，指示灯随之熄灭
+export function closeCamera(stream: MediaStream, video?: HTMLVideoElement | null) {
+    stream.getTracks().forEach(t => t.stop());
+    if (video && video.srcObject === stream) video.srcObject = null;
+}
@@ -0,0 +1,63 @@
+import type { AudioSettings } from '../services/audioReactive';
+import { Listeners } from './listeners';
+
+// --- 音乐律动面板：选择音源、调灵敏度，并显示响度 ---
+
+export interface AudioActions {
+    file(file: File): void;
+    microphone(): void;
+    stop(): void;
+}
+
+export class AudioPanel {
+    root: HTMLElement;
+    source: HTMLElement | null;
+    meter: HTMLElement | null;
+    text = '';
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, settings: AudioSettings, actions: AudioActions) {
+        this.root = root;
+        this.source = root.querySelector('.audio-source');
+        this.meter = root.querySelector('.audio-level');
+
+        const picker = root.querySelector('input[type="file"]') as HTMLInputElement;
+        this.listeners.add(picker, 'change', () => {
+            const file = picker.files?.[0];
+            if (file) actions.file(file);
+            picker.value = '';
+        });
+        this.listeners.add(root, 'click', e => {
+            switch ((e.target as HTMLElement).closest('button')?.dataset.action) {
+                case 'file': picker.click(); break;
+                case 'mic': actions.microphone(); break;
+                case 'stop': actions.stop(); break;
+            }
+        });
+
+        const sensitivity = root.querySelector('input[name="sensitivity"]') as HTMLInputElement;
+        sensitivity.value = String(settings.sensitivity);
+        this.listeners.add(sensitivity, 'input', () => settings.sensitivity = Number(sensitivity.value));
+        const bursts = root.querySelector('input[name="bursts"]') as HTMLInputElement;
+        bursts.checked = settings.bursts;
+        this.listeners.add(bursts, 'change', () => settings.bursts = bursts.checked);
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('audio-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+
+    // 每帧调用；没有音频时显示正在使用时间驱动的动画
+    update(label: string, level: number, beat: number) {
+        const text = label ? `♪ ${label}` : 'NO AUDIO · TIME-BASED';
+        if (text !== this.text && this.source) this.source.textContent = this.text = text;
+        if (this.meter) {
+            this.meter.style.transform = `scaleX(${level})`;
+            this.meter.style.opacity = String(0.5 + beat * 0.5);
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import type { CameraPath } from '../scene/cameraPath';
+import { Listeners } from './listeners';
+
+// --- 相机面板：播放预设和保存的路径，把当前机位一帧帧记成新路径 ---
+
+export interface CameraActions {
+    play(id: string): void;
+    remove(id: string): void;
+    stop(): void;
+    reset(): void;
+    // 以 gap 秒的间隔把当前机位追加为关键帧
+    key(gap: number): void;
+    preview(): void;
+    clear(): void;
+    save(label: string): void;
+}
+
+export class CameraPanel {
+    root: HTMLElement;
+    list: HTMLElement | null;
+    draft: HTMLElement | null;
+    name: HTMLInputElement | null;
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, actions: CameraActions) {
+        this.root = root;
+        this.list = root.querySelector('.camera-paths');
+        this.draft = root.querySelector('.camera-draft');
+        this.name = root.querySelector('input[name="path-name"]');
+        const gap = root.querySelector('select[name="key-gap"]') as HTMLSelectElement | null;
+
+        const save = () => {
+            const label = this.name?.value.trim();
+            if (!label) return;
+            actions.save(label);
+            this.name!.value = '';
+        };
+        this.listeners.add<KeyboardEvent>(this.name, 'keydown', e => {
+            if (e.key === 'Enter') save();
+        });
+        this.listeners.add(root, 'click', e => {
+            const btn = (e.target as HTMLElement).closest('button');
+            switch (btn?.dataset.action) {
+                case 'play': actions.play(btn.dataset.id!); break;
+                case 'remove-path': actions.remove(btn.dataset.id!); break;
+                case 'stop': actions.stop(); break;
+                case 'reset': actions.reset(); break;
+                case 'key': actions.key(Number(gap?.value ?? 3)); break;
+                case 'preview': actions.preview(); break;
+                case 'clear': actions.clear(); break;
+                case 'save-path': save(); break;
+            }
+        });
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('camera-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.list?.replaceChildren();
+    }
+
+    // playing 为正在播放的路径 id，没有播放时为空
+    render(paths: CameraPath[], playing: string, keys: number, seconds: number) {
+        this.list?.replaceChildren(...paths.map(path => {
+            const item = document.createElement('div');
+            item.className = 'camera-path';
+            const btn = document.createElement('button');
+            btn.className = 'btn' + (path.id === playing ? ' active' : '');
+            btn.dataset.action = 'play';
+            btn.dataset.id = path.id;
+            btn.textContent = path.label;
+            item.append(btn);
+            if (path.custom) {
+                const remove = document.createElement('button');
+                remove.className = 'theme-remove';
+                remove.dataset.action = 'remove-path';
+                remove.dataset.id = path.id;
+                remove.title = 'Delete path';
+                remove.textContent = '✕';
+                item.append(remove);
+            }
+            return item;
+        }));
+        if (this.draft) this.draft.textContent = keys ? `${keys} ${keys === 1 ? 'KEY' : 'KEYS'} · ${seconds.toFixed(1)} S` : 'NO KEYS · FRAME A SHOT, THEN ADD KEY';
+    }
+}
@@ -0,0 +1,32 @@
+// --- 聚焦照片时显示的标题与拍摄日期 ---
+
+export function formatPhotoDate(takenAt: number) {
+    return new Date(takenAt).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+export class CaptionOverlay {
+    el: HTMLElement | null;
+    caption: HTMLElement | null = null;
+    date: HTMLElement | null = null;
+
+    constructor(el: HTMLElement | null) {
+        this.el = el;
+        this.caption = el?.querySelector('.focus-caption-text') ?? null;
+        this.date = el?.querySelector('.focus-caption-date') ?? null;
+    }
+
+    show(caption?: string, takenAt?: number) {
+        if (!this.el) return;
+        if (!caption && takenAt === undefined) {
+            this.hide();
+            return;
+        }
+        if (this.caption) this.caption.textContent = caption ?? '';
+        if (this.date) this.date.textContent = takenAt === undefined ? '' : formatPhotoDate(takenAt);
+        this.el.classList.add('focus-caption-visible');
+    }
+
+    hide() {
+        this.el?.classList.remove('focus-caption-visible');
+    }
+}
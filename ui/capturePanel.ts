@@ -0,0 +1,56 @@
+import { Listeners } from './listeners';
+
+// --- 录像与截图面板 ---
+
+export interface CaptureActions {
+    // size 是 'screen' 或 '宽x高'，length 是秒数或 'show'（按预设表演的时长）
+    record(size: string, length: string): void;
+    stop(): void;
+    snapshot(scale: number): void;
+}
+
+export class CapturePanel {
+    root: HTMLElement;
+    recordButton: HTMLButtonElement | null;
+    indicator: HTMLElement | null;
+    recording = false;
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, indicator: HTMLElement | null, actions: CaptureActions) {
+        this.root = root;
+        this.indicator = indicator;
+        this.recordButton = root.querySelector('[data-action="record"]');
+        const value = (name: string) => (root.querySelector(`select[name="${name}"]`) as HTMLSelectElement).value;
+
+        this.listeners.add(root, 'click', e => {
+            const btn = (e.target as HTMLElement).closest('button');
+            switch (btn?.dataset.action) {
+                case 'record':
+                    if (this.recording) actions.stop();
+                    else actions.record(value('video-size'), value('video-length'));
+                    break;
+                case 'snapshot':
+                    actions.snapshot(Number(value('still-scale')));
+                    break;
+            }
+        });
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('capture-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.setRecording(false);
+    }
+
+    setRecording(recording: boolean, remaining = 0) {
+        this.recording = recording;
+        if (this.recordButton) this.recordButton.textContent = recording ? '■ STOP' : '● RECORD';
+        if (!this.indicator) return;
+        this.indicator.classList.toggle('rec-visible', recording);
+        const seconds = Math.max(0, Math.ceil(remaining));
+        this.indicator.textContent = `● REC ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+}
@@ -0,0 +1,35 @@
+// --- 倒计时的 HUD：右上角的计时器，以及屏幕中央的最后几秒和祝福 ---
+
+export class CountdownOverlay {
+    timer: HTMLElement | null;
+    banner: HTMLElement | null;
+    text = '';
+    big = '';
+
+    constructor(timer: HTMLElement | null, banner: HTMLElement | null) {
+        this.timer = timer;
+        this.banner = banner;
+    }
+
+    // 每帧调用，文字没变就不碰 DOM；text 为空时隐藏
+    update(text: string) {
+        if (!this.timer || text === this.text) return;
+        this.text = text;
+        this.timer.textContent = text;
+        this.timer.classList.toggle('countdown-visible', !!text);
+    }
+
+    // 最后几秒的大数字或到点后的祝福；greeting 为 true 时用更柔和的样式
+    show(text: string, greeting = false) {
+        if (!this.banner || text === this.big) return;
+        this.big = text;
+        if (text) this.banner.textContent = text;
+        this.banner.classList.toggle('countdown-banner-visible', !!text);
+        this.banner.classList.toggle('countdown-greeting', greeting);
+    }
+
+    hide() {
+        this.update('');
+        this.show('');
+    }
+}
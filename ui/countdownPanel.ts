@@ -0,0 +1,87 @@
+import { COUNTDOWN_TARGETS } from '../scene/countdown';
+import { Listeners } from './listeners';
+
+// --- 倒计时面板：选目标时刻和祝福，手动放一场表演，或把时钟拨到零点前排练 ---
+
+export interface CountdownActions {
+    schedule(target: string): void;
+    greeting(text: string): void;
+    finale(id: string): void;
+    play(): void;
+    rehearse(): void;
+    realTime(): void;
+}
+
+export class CountdownPanel {
+    root: HTMLElement;
+    target: HTMLSelectElement | null;
+    custom: HTMLInputElement | null;
+    greeting: HTMLInputElement | null;
+    finale: HTMLSelectElement | null;
+    clock: HTMLElement | null;
+    text = '';
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, actions: CountdownActions) {
+        this.root = root;
+        this.target = root.querySelector('select[name="target"]');
+        this.custom = root.querySelector('input[name="custom-target"]');
+        this.greeting = root.querySelector('input[name="greeting"]');
+        this.finale = root.querySelector('select[name="finale"]');
+        this.clock = root.querySelector('.countdown-clock');
+
+        COUNTDOWN_TARGETS.forEach(t => this.target?.add(new Option(t.label, t.id)));
+        this.target?.add(new Option('CUSTOM', 'custom'));
+        this.listeners.add(this.target, 'change', () => {
+            const custom = this.target!.value === 'custom';
+            if (this.custom) this.custom.hidden = !custom;
+            if (!custom) actions.schedule(this.target!.value);
+            else if (this.custom?.value) actions.schedule(this.custom.value);
+        });
+        this.listeners.add(this.custom, 'change', () => {
+            if (this.custom!.value) actions.schedule(this.custom!.value);
+        });
+        this.listeners.add<KeyboardEvent>(this.greeting, 'keydown', e => {
+            if (e.key === 'Enter') this.greeting!.blur();
+        });
+        this.listeners.add(this.greeting, 'change', () => {
+            const text = this.greeting!.value.trim();
+            if (text) actions.greeting(text);
+        });
+        this.listeners.add(this.finale, 'change', () => actions.finale(this.finale!.value));
+        this.listeners.add(root, 'click', e => {
+            switch ((e.target as HTMLElement).closest('button')?.dataset.action) {
+                case 'play': actions.play(); break;
+                case 'rehearse': actions.rehearse(); break;
+                case 'real-time': actions.realTime(); break;
+            }
+        });
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('countdown-hidden', force === undefined ? undefined : !force);
+    }
+
+    // 目标时刻的选项是这里加的，下次挂载会重新加
+    dispose() {
+        this.listeners.clear();
+        this.target?.replaceChildren();
+    }
+
+    // 把 CONFIG 里的当前值填回表单（导入存档、宿主改配置之后）
+    render(target: string, greeting: string, finale: string) {
+        const preset = COUNTDOWN_TARGETS.some(t => t.id === target);
+        if (this.target) this.target.value = preset ? target : 'custom';
+        if (this.custom) {
+            this.custom.hidden = preset;
+            if (!preset) this.custom.value = target;
+        }
+        if (this.greeting && document.activeElement !== this.greeting) this.greeting.value = greeting;
+        if (this.finale) this.finale.value = finale;
+    }
+
+    // 每帧调用：本机时间或正在模拟的时间
+    update(text: string) {
+        if (text !== this.text && this.clock) this.clock.textContent = this.text = text;
+    }
+}
@@ -0,0 +1,8 @@
+// 通过临时链接把 Blob 保存为本地文件
+export function downloadBlob(blob: Blob, filename: string) {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
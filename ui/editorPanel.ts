@@ -0,0 +1,79 @@
+import { ORNAMENT_KINDS, OrnamentKind } from '../scene/ornaments';
+import { Listeners } from './listeners';
+
+// --- 摆放编辑面板：从调色板挂上新的挂饰，对选中的照片或挂饰取消固定、移除 ---
+
+export interface EditorActions {
+    add(kind: OrnamentKind): void;
+    image(file: File): void;
+    unpin(): void;
+    remove(): void;
+    done(): void;
+}
+
+export interface EditorSelection {
+    name: string;
+    pinned: boolean;
+    // 照片在照片库里删，这里只能移除挂饰
+    removable: boolean;
+}
+
+export class EditorPanel {
+    root: HTMLElement;
+    selection: HTMLElement | null;
+    unpin: HTMLButtonElement | null;
+    remove: HTMLButtonElement | null;
+    palette: Element | null;
+    text = '';
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, actions: EditorActions) {
+        this.root = root;
+        this.selection = root.querySelector('.editor-selection');
+        this.unpin = root.querySelector('button[data-action="unpin"]');
+        this.remove = root.querySelector('button[data-action="remove"]');
+
+        const palette = this.palette = root.querySelector('.editor-palette');
+        ORNAMENT_KINDS.forEach(k => {
+            const btn = document.createElement('button');
+            btn.className = 'btn';
+            btn.dataset.action = 'add';
+            btn.dataset.kind = k.id;
+            btn.textContent = k.label;
+            palette?.appendChild(btn);
+        });
+
+        const picker = root.querySelector('input[type="file"]') as HTMLInputElement;
+        this.listeners.add(picker, 'change', () => {
+            const file = picker.files?.[0];
+            if (file) actions.image(file);
+            picker.value = '';
+        });
+        this.listeners.add(root, 'click', e => {
+            const btn = (e.target as HTMLElement).closest('button');
+            switch (btn?.dataset.action) {
+                case 'add': actions.add(btn.dataset.kind as OrnamentKind); break;
+                case 'image': picker.click(); break;
+                case 'unpin': actions.unpin(); break;
+                case 'remove': actions.remove(); break;
+                case 'done': actions.done(); break;
+            }
+        });
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('editor-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.palette?.replaceChildren();
+    }
+
+    render(selected: EditorSelection | null) {
+        const text = selected ? `${selected.name}${selected.pinned ? ' · PINNED' : ''}` : 'DRAG A PHOTO OR ORNAMENT ONTO THE TREE';
+        if (text !== this.text && this.selection) this.selection.textContent = this.text = text;
+        if (this.unpin) this.unpin.disabled = !selected?.pinned;
+        if (this.remove) this.remove.disabled = !selected?.removable;
+    }
+}
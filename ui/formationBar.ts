@@ -0,0 +1,39 @@
+import type { Formation } from '../scene/formations';
+import { Listeners } from './listeners';
+
+// --- HUD 里的阵型切换栏：按钮由阵型注册表生成 ---
+
+export class FormationBar {
+    root: HTMLElement | null;
+    buttons = new Map<string, HTMLButtonElement>();
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement | null, formations: Formation[], onSelect: (id: string) => void) {
+        this.root = root;
+        if (!root) return;
+        formations.filter(f => !f.hidden).forEach(f => {
+            const button = document.createElement('button');
+            button.className = 'btn';
+            if (f.key) {
+                const kbd = document.createElement('kbd');
+                kbd.textContent = f.key;
+                button.appendChild(kbd);
+            }
+            button.appendChild(document.createTextNode(f.label));
+            this.listeners.add(button, 'click', () => onSelect(f.id));
+            root.appendChild(button);
+            this.buttons.set(f.id, button);
+        });
+    }
+
+    // 按钮是这里生成的，不拿掉的话下次挂载会多出一排
+    dispose() {
+        this.listeners.clear();
+        this.buttons.forEach(button => button.remove());
+        this.buttons.clear();
+    }
+
+    setActive(id: string) {
+        this.buttons.forEach((button, key) => button.classList.toggle('active', key === id));
+    }
+}
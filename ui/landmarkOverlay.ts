@@ -0,0 +1,70 @@
+import { HandLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// --- 调试叠加层：在画面上画出（回放或实时的）手部骨架 ---
+
+const HAND_COLORS = ['#d4af37', '#ff3366'];
+
+export class LandmarkOverlay {
+    canvas: HTMLCanvasElement;
+    ctx: CanvasRenderingContext2D;
+    visible = false;
+
+    constructor() {
+        this.canvas = document.createElement('canvas');
+        this.canvas.id = 'landmark-overlay';
+        this.canvas.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:1500;display:none;';
+        this.ctx = this.canvas.getContext('2d')!;
+        document.body.appendChild(this.canvas);
+    }
+
+    toggle(force?: boolean) {
+        this.visible = force ?? !this.visible;
+        this.canvas.style.display = this.visible ? 'block' : 'none';
+        if (!this.visible) this.clear();
+    }
+
+    clear() {
+        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    }
+
+    dispose() {
+        this.canvas.remove();
+    }
+
+    draw(hands: NormalizedLandmark[][], label = '') {
+        if (!this.visible) return;
+        const w = window.innerWidth;
+        const h = window.innerHeight;
+        if (this.canvas.width !== w || this.canvas.height !== h) {
+            this.canvas.width = w;
+            this.canvas.height = h;
+        }
+        const ctx = this.ctx;
+        this.clear();
+
+        // 与光标一致：x 镜像
+        const px = (p: NormalizedLandmark) => (1 - p.x) * w;
+        const py = (p: NormalizedLandmark) => p.y * h;
+        hands.forEach((lm, i) => {
+            ctx.strokeStyle = ctx.fillStyle = HAND_COLORS[i % HAND_COLORS.length];
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            HandLandmarker.HAND_CONNECTIONS.forEach(({ start, end }) => {
+                ctx.moveTo(px(lm[start]), py(lm[start]));
+                ctx.lineTo(px(lm[end]), py(lm[end]));
+            });
+            ctx.stroke();
+            lm.forEach(p => {
+                ctx.beginPath();
+                ctx.arc(px(p), py(p), 3, 0, Math.PI * 2);
+                ctx.fill();
+            });
+        });
+
+        if (label) {
+            ctx.font = '11px Cinzel, serif';
+            ctx.fillStyle = '#d4af37';
+            ctx.fillText(label, 20, h - 20);
+        }
+    }
+}
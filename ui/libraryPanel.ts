@@ -0,0 +1,144 @@
+import { formatPhotoDate } from './captionOverlay';
+import { Listeners } from './listeners';
+
+// --- HUD 里的照片库面板：删除、排序、替换、写标题 ---
+
+export interface LibraryItem {
+    id: string;
+    blob: Blob;
+    name: string;
+    caption?: string;
+    takenAt?: number;
+}
+
+export interface LibraryActions {
+    remove(id: string): void;
+    move(id: string, delta: number): void;
+    replace(id: string, file: File): void;
+    caption(id: string, caption: string): void;
+}
+
+export class LibraryPanel {
+    root: HTMLElement;
+    list: HTMLElement;
+    count: HTMLElement | null;
+    picker: HTMLInputElement;
+    urls = new Map<string, { blob: Blob; url: string }>();
+    replacing: string | null = null;
+    actions: LibraryActions;
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, actions: LibraryActions) {
+        this.root = root;
+        this.actions = actions;
+        this.list = root.querySelector('.library-list') as HTMLElement;
+        this.count = root.querySelector('.library-count');
+
+        this.picker = document.createElement('input');
+        this.picker.type = 'file';
+        this.picker.accept = 'image/*';
+        this.picker.style.display = 'none';
+        this.listeners.add(this.picker, 'change', () => {
+            const file = this.picker.files?.[0];
+            if (file && this.replacing) this.actions.replace(this.replacing, file);
+            this.replacing = null;
+            this.picker.value = '';
+        });
+        root.appendChild(this.picker);
+
+        // 输入框失焦或回车时提交标题
+        this.listeners.add(this.list, 'change', e => {
+            const input = e.target as HTMLInputElement;
+            const row = input.closest('[data-id]') as HTMLElement | null;
+            if (input.classList.contains('library-caption') && row) this.actions.caption(row.dataset.id!, input.value.trim());
+        });
+        this.listeners.add<KeyboardEvent>(this.list, 'keydown', e => {
+            if (e.key === 'Enter') (e.target as HTMLElement).blur();
+        });
+
+        this.listeners.add(this.list, 'click', e => {
+            const btn = (e.target as HTMLElement).closest('button');
+            const row = btn?.closest('[data-id]') as HTMLElement | null;
+            if (!btn || !row) return;
+            const id = row.dataset.id!;
+            switch (btn.dataset.action) {
+                case 'up': this.actions.move(id, -1); break;
+                case 'down': this.actions.move(id, 1); break;
+                case 'delete': this.actions.remove(id); break;
+                case 'replace':
+                    this.replacing = id;
+                    this.picker.click();
+                    break;
+            }
+        });
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('library-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.urls.forEach(v => URL.revokeObjectURL(v.url));
+        this.urls.clear();
+        this.list.replaceChildren();
+        this.picker.remove();
+    }
+
+    // 缩略图用 object URL，条目被删除或图片被替换时及时释放
+    private thumb(item: LibraryItem) {
+        const cached = this.urls.get(item.id);
+        if (cached && cached.blob === item.blob) return cached.url;
+        if (cached) URL.revokeObjectURL(cached.url);
+        const url = URL.createObjectURL(item.blob);
+        this.urls.set(item.id, { blob: item.blob, url });
+        return url;
+    }
+
+    render(items: LibraryItem[]) {
+        const alive = new Set(items.map(i => i.id));
+        this.urls.forEach((v, id) => {
+            if (!alive.has(id)) {
+                URL.revokeObjectURL(v.url);
+                this.urls.delete(id);
+            }
+        });
+
+        if (this.count) this.count.textContent = `${items.length}`;
+        this.list.replaceChildren(...items.map((item, i) => {
+            const row = document.createElement('div');
+            row.className = 'library-item';
+            row.dataset.id = item.id;
+
+            const img = document.createElement('img');
+            img.src = this.thumb(item);
+            img.alt = item.name;
+            const meta = document.createElement('div');
+            meta.className = 'library-meta';
+            const caption = document.createElement('input');
+            caption.className = 'library-caption';
+            caption.value = item.caption ?? '';
+            caption.placeholder = 'Add a caption…';
+            caption.maxLength = 120;
+            const name = document.createElement('span');
+            name.textContent = item.takenAt === undefined ? item.name : `${formatPhotoDate(item.takenAt)} · ${item.name}`;
+            meta.append(caption, name);
+            row.append(img, meta);
+
+            const buttons: [string, string, boolean][] = [
+                ['up', '▲', i === 0],
+                ['down', '▼', i === items.length - 1],
+                ['replace', '⟳', false],
+                ['delete', '✕', false]
+            ];
+            buttons.forEach(([action, label, disabled]) => {
+                const btn = document.createElement('button');
+                btn.dataset.action = action;
+                btn.textContent = label;
+                btn.disabled = disabled;
+                row.appendChild(btn);
+            });
+            return row;
+        }));
+    }
+}
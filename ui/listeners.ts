@@ -0,0 +1,17 @@
+// --- HUD 面板的事件监听：登记时记下移除的办法，面板 dispose 时一起移除 ---
+
+export class Listeners {
+    private removers: (() => void)[] = [];
+
+    // target 为空时什么也不做
+    add<E extends Event = Event>(target: EventTarget | null | undefined, type: string, handler: (e: E) => void) {
+        if (!target) return;
+        target.addEventListener(type, handler as EventListener);
+        this.removers.push(() => target.removeEventListener(type, handler as EventListener));
+    }
+
+    clear() {
+        this.removers.forEach(fn => fn());
+        this.removers = [];
+    }
+}
@@ -0,0 +1,54 @@
+import { Listeners } from './listeners';
+
+// --- 遥控配对面板：显示配对码和手机要打开的链接 ---
+
+export interface RemoteActions {
+    start(): void;
+    stop(): void;
+    copy(): void;
+}
+
+export class RemotePanel {
+    root: HTMLElement;
+    code: HTMLElement | null;
+    link: HTMLAnchorElement | null;
+    status: HTMLElement | null;
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, actions: RemoteActions) {
+        this.root = root;
+        this.code = root.querySelector('.remote-code');
+        this.link = root.querySelector('.remote-link');
+        this.status = root.querySelector('.remote-status');
+        this.listeners.add(root, 'click', e => {
+            switch ((e.target as HTMLElement).closest('button')?.dataset.action) {
+                case 'start': actions.start(); break;
+                case 'stop': actions.stop(); break;
+                case 'copy': actions.copy(); break;
+            }
+        });
+    }
+
+    get visible() {
+        return !this.root.classList.contains('remote-hidden');
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('remote-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+
+    // code 为空表示遥控已关闭
+    show(code: string, link: string, status: string) {
+        this.root.classList.toggle('remote-off', !code);
+        if (this.code) this.code.textContent = code || '——————';
+        if (this.link) {
+            this.link.textContent = link;
+            this.link.href = link || '#';
+        }
+        if (this.status) this.status.textContent = status;
+    }
+}
@@ -0,0 +1,97 @@
+import { SETTINGS, SettingSpec, SettingsStore, getSetting, formatSetting } from '../services/settings';
+import { Listeners } from './listeners';
+
+// --- 设置面板：按分组列出可调项，拖动时即时生效 ---
+
+export interface SettingsActions {
+    // 值已写入 CONFIG；final 为 false 表示还在拖动，重建类的设置等松手后再处理
+    change(spec: SettingSpec, final: boolean): void;
+    reset(): void;
+    share(): void;
+}
+
+export class SettingsPanel {
+    root: HTMLElement;
+    store: SettingsStore;
+    list: Element;
+    rows = new Map<string, { input: HTMLInputElement; value: HTMLElement | null }>();
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, store: SettingsStore, actions: SettingsActions) {
+        this.root = root;
+        this.store = store;
+        const list = this.list = root.querySelector('.settings-list')!;
+
+        let group = '';
+        SETTINGS.filter(spec => !spec.hidden).forEach(spec => {
+            if (spec.group !== group) {
+                group = spec.group;
+                const heading = document.createElement('div');
+                heading.className = 'settings-group';
+                heading.textContent = group;
+                list.appendChild(heading);
+            }
+            const row = document.createElement('label');
+            row.className = 'settings-row';
+            row.textContent = spec.label;
+            const input = document.createElement('input');
+            let value: HTMLElement | null = null;
+            if (spec.type === 'color') {
+                input.type = 'color';
+            } else if (spec.type === 'boolean') {
+                input.type = 'checkbox';
+            } else {
+                input.type = 'range';
+                input.min = String(spec.min);
+                input.max = String(spec.max);
+                input.step = String(spec.step ?? (spec.type === 'int' ? 1 : 0.01));
+                value = document.createElement('span');
+                value.className = 'settings-value';
+            }
+            const raw = () => spec.type === 'boolean' ? input.checked : input.value;
+            if (spec.type !== 'boolean') this.listeners.add(input, 'input', () => this.commit(spec, raw(), false, actions));
+            this.listeners.add(input, 'change', () => this.commit(spec, raw(), true, actions));
+            row.append(input);
+            if (value) row.append(value);
+            list.appendChild(row);
+            this.rows.set(spec.path, { input, value });
+        });
+        this.refresh();
+
+        this.listeners.add(root, 'click', e => {
+            switch ((e.target as HTMLElement).closest('button')?.dataset.action) {
+                case 'reset': actions.reset(); break;
+                case 'share': actions.share(); break;
+            }
+        });
+    }
+
+    private commit(spec: SettingSpec, raw: string | boolean, final: boolean, actions: SettingsActions) {
+        if (this.store.set(spec, raw) === null) return;
+        this.refresh(spec);
+        actions.change(spec, final);
+    }
+
+    // 从 CONFIG 读回当前值（导入存档、重置之后也调用）
+    refresh(only?: SettingSpec) {
+        (only ? [only] : SETTINGS).forEach(spec => {
+            const row = this.rows.get(spec.path);
+            if (!row) return;
+            const value = getSetting(spec);
+            const text = formatSetting(spec, value);
+            if (typeof value === 'boolean') row.input.checked = value;
+            else row.input.value = spec.type === 'color' ? text : String(value);
+            if (row.value) row.value.textContent = text;
+        });
+    }
+
+    toggle(force?: boolean) {
+        this.root.classList.toggle('settings-hidden', force === undefined ? undefined : !force);
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.list.replaceChildren();
+        this.rows.clear();
+    }
+}
@@ -0,0 +1,44 @@
+import { SLIDE_TRANSITIONS, SlideTransition } from '../scene/slideshow';
+import { Listeners } from './listeners';
+
+// --- 幻灯片进度条：第几张、是否暂停，以及切换效果的选择 ---
+
+export class SlideshowIndicator {
+    el: HTMLElement | null;
+    label: HTMLElement | null = null;
+    fill: HTMLElement | null = null;
+    select: HTMLSelectElement | null = null;
+    text = '';
+    listeners = new Listeners();
+
+    constructor(el: HTMLElement | null, transition: SlideTransition, onTransition: (t: SlideTransition) => void) {
+        this.el = el;
+        if (!el) return;
+        this.label = el.querySelector('.slideshow-label');
+        this.fill = el.querySelector('.slideshow-fill');
+        const select = this.select = el.querySelector('select');
+        if (select) {
+            SLIDE_TRANSITIONS.forEach(t => select.add(new Option(t.label, t.id, false, t.id === transition)));
+            this.listeners.add(select, 'change', () => onTransition(select.value as SlideTransition));
+        }
+    }
+
+    update(index: number, count: number, progress: number, paused: boolean) {
+        if (!this.el) return;
+        this.el.classList.remove('slideshow-hidden');
+        const text = `${paused ? 'PAUSED' : 'SLIDESHOW'} · ${index + 1} / ${count}`;
+        // 每帧都会调用，文字没变就不碰 DOM
+        if (text !== this.text && this.label) this.label.textContent = this.text = text;
+        if (this.fill) this.fill.style.transform = `scaleX(${progress})`;
+    }
+
+    hide() {
+        this.el?.classList.add('slideshow-hidden');
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.select?.replaceChildren();
+        this.hide();
+    }
+}
@@ -0,0 +1,26 @@
+import type { QualityGovernor } from '../scene/quality';
+
+// --- 性能信息：帧率、帧时间和当前画质档位，每半秒刷新一次 ---
+
+export class StatsOverlay {
+    el: HTMLElement | null;
+    elapsed = 0;
+
+    constructor(el: HTMLElement | null) {
+        this.el = el;
+    }
+
+    update(dt: number, visible: boolean, governor: QualityGovernor, particles: string) {
+        if (!this.el) return;
+        this.el.classList.toggle('stats-visible', visible);
+        this.elapsed += dt;
+        if (!visible || this.elapsed < 0.5) return;
+        this.elapsed = 0;
+        const tier = governor.current;
+        this.el.textContent = [
+            `${governor.fps.toFixed(0)} FPS · ${governor.frameMs.toFixed(1)} MS`,
+            `${tier.label}${governor.auto ? ' · AUTO' : ''} · BLOOM ${tier.bloom ? `${tier.bloom * 100}%` : 'OFF'}`,
+            `${particles} · HANDS ${tier.handRate}/S`
+        ].join('\n');
+    }
+}
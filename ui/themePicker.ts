@@ -0,0 +1,77 @@
+import type { Theme } from '../scene/theme';
+import { Listeners } from './listeners';
+
+// --- 主题选择：预设与自定义主题的色块按钮，以及把当前配色存为新主题 ---
+
+export interface ThemeActions {
+    select(id: string): void;
+    save(label: string): void;
+    remove(id: string): void;
+}
+
+const hex = (c: number) => '#' + c.toString(16).padStart(6, '0');
+
+export class ThemePicker {
+    root: HTMLElement;
+    list: HTMLElement;
+    name: HTMLInputElement;
+    listeners = new Listeners();
+
+    constructor(root: HTMLElement, actions: ThemeActions) {
+        this.root = root;
+        this.list = root.querySelector('.theme-list')!;
+        this.name = root.querySelector('input')!;
+
+        const save = () => {
+            const label = this.name.value.trim();
+            if (!label) return;
+            actions.save(label);
+            this.name.value = '';
+        };
+        this.listeners.add<KeyboardEvent>(this.name, 'keydown', e => {
+            if (e.key === 'Enter') save();
+        });
+        this.listeners.add(root, 'click', e => {
+            const btn = (e.target as HTMLElement).closest('button');
+            switch (btn?.dataset.action) {
+                case 'theme': actions.select(btn.dataset.id!); break;
+                case 'remove-theme': actions.remove(btn.dataset.id!); break;
+                case 'save-theme': save(); break;
+            }
+        });
+    }
+
+    dispose() {
+        this.listeners.clear();
+        this.list.replaceChildren();
+    }
+
+    render(themes: Theme[], selected: string) {
+        this.list.replaceChildren(...themes.map(theme => {
+            const { colors, hud } = theme.palette;
+            const item = document.createElement('div');
+            item.className = 'theme-item';
+
+            const btn = document.createElement('button');
+            btn.className = 'theme-swatch' + (theme.id === selected ? ' active' : '');
+            btn.dataset.action = 'theme';
+            btn.dataset.id = theme.id;
+            btn.title = theme.label;
+            btn.style.background = `linear-gradient(135deg, ${hex(colors.greens[0])} 0 35%, ${hex(colors.gold)} 35% 60%, ${hex(colors.red)} 60% 80%, ${hex(hud.accent)} 80%)`;
+            const label = document.createElement('span');
+            label.textContent = theme.label;
+            item.append(btn, label);
+
+            if (theme.custom) {
+                const remove = document.createElement('button');
+                remove.className = 'theme-remove';
+                remove.dataset.action = 'remove-theme';
+                remove.dataset.id = theme.id;
+                remove.title = 'Delete theme';
+                remove.textContent = '✕';
+                item.append(remove);
+            }
+            return item;
+        }));
+    }
+}
@@ -0,0 +1,16 @@
+// --- HUD 顶部的简短提示条 ---
+
+let hideTimer: number | undefined;
+
+export function showToast(message: string, kind: 'info' | 'error' = 'info', duration = 4000) {
+    const el = document.getElementById('toast');
+    if (!el) {
+        if (kind === 'error') console.warn(message);
+        return;
+    }
+    el.textContent = message;
+    el.classList.toggle('toast-error', kind === 'error');
+    el.classList.add('toast-visible');
+    window.clearTimeout(hideTimer);
+    hideTimer = window.setTimeout(() => el.classList.remove('toast-visible'), duration);
+}
@@ -0,0 +1,45 @@
+import type { VisionStatus } from '../services/visionRuntime';
+import { Listeners } from './listeners';
+
+// --- HUD 上的手势识别状态指示 ---
+
+const LABELS: Record<VisionStatus, string> = {
+    'loading': 'STARTING HAND TRACKING',
+    'ready': 'HAND TRACKING',
+    'off': 'HAND TRACKING OFF',
+    'camera-denied': 'CAMERA BLOCKED',
+    'no-camera': 'NO CAMERA',
+    'model-failed': 'HAND MODEL FAILED',
+    'unsupported': 'GESTURES UNSUPPORTED'
+};
+
+export class VisionStatusIndicator {
+    el: HTMLElement | null;
+    status: VisionStatus = 'loading';
+    listeners = new Listeners();
+
+    constructor(el: HTMLElement | null, onRetry: () => void) {
+        this.el = el;
+        this.listeners.add(el, 'click', () => {
+            if (this.retryable) onRetry();
+        });
+    }
+
+    // 摄像头关闭、被拒、没有摄像头或模型失败时，点击可以重试
+    get retryable() {
+        return this.status !== 'loading' && this.status !== 'ready' && this.status !== 'unsupported';
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+
+    set(status: VisionStatus, detail = '') {
+        this.status = status;
+        if (!this.el) return;
+        this.el.dataset.status = status;
+        this.el.textContent = [LABELS[status], detail, this.retryable ? 'TAP TO RETRY' : ''].filter(Boolean).join(' · ');
+        this.el.title = detail;
+        this.el.classList.toggle('retryable', this.retryable);
+    }
+}
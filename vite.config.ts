@@ -1,7 +1,46 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// 手势识别的 WASM 与模型随应用一起发布，场地没有网络也能用
+// WASM 来自 node_modules，模型放在 models/（npm run fetch-model 下载）
+function mediapipeAssets(): Plugin {
+    const wasmDir = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+    const modelFile = path.resolve(__dirname, 'models/hand_landmarker.task');
+    const assets = () => {
+        const files: Record<string, string> = {};
+        fs.readdirSync(wasmDir).forEach(f => files[`mediapipe/wasm/${f}`] = path.join(wasmDir, f));
+        if (fs.existsSync(modelFile)) files['mediapipe/hand_landmarker.task'] = modelFile;
+        return files;
+    };
+
+    return {
+        name: 'mediapipe-assets',
+        configureServer(server) {
+            server.middlewares.use('/mediapipe/', (req, res) => {
+                const file = assets()[`mediapipe/${decodeURIComponent((req.url ?? '').split('?')[0].replace(/^\//, ''))}`];
+                if (!file) {
+                    res.statusCode = 404;
+                    res.end();
+                    return;
+                }
+                res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : file.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+                fs.createReadStream(file).pipe(res);
+            });
+        },
+        generateBundle() {
+            const files = assets();
+            if (!files['mediapipe/hand_landmarker.task']) {
+                this.warn('models/hand_landmarker.task is missing; hand tracking will need the CDN. Run `npm run fetch-model`.');
+            }
+            Object.entries(files).forEach(([fileName, file]) => {
+                this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(file) });
+            });
+        }
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +48,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets()],
+      build: {
+        // 手机遥控页是单独的入口
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            remote: path.resolve(__dirname, 'remote.html')
+          }
+        }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)